@@ -0,0 +1,30 @@
+/**
+ * Manifests do not change during the lifetime of a deployment, so each is loaded once per isolate.
+ */
+const manifestPromises = new Map<string, Promise<unknown>>();
+
+/**
+ * Loads a JSON manifest written by the post-build assets processor from the static assets.
+ * Resolves to null if the manifest is missing, so that older builds keep working.
+ */
+export const loadBuildManifest = <T>(manifestPath: string, request: Request, env: Env): Promise<T | null> => {
+	let manifestPromise = manifestPromises.get(manifestPath);
+	if (!manifestPromise) {
+		manifestPromise = env.ASSETS.fetch(new URL(manifestPath, request.url))
+			.then(async response => {
+				if (!response.ok) {
+					return null;
+				}
+
+				return await response.json<T>();
+			})
+			.catch(() => {
+				//Try again on the next request.
+				manifestPromises.delete(manifestPath);
+				return null;
+			});
+		manifestPromises.set(manifestPath, manifestPromise);
+	}
+
+	return manifestPromise as Promise<T | null>;
+};
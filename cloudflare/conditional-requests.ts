@@ -0,0 +1,100 @@
+import { loadBuildManifest } from './build-manifest';
+
+/**
+ * Build-time validators written by the post-build assets processor,
+ * see createETagManifest in post-build-assets-processor-plugin.ts.
+ */
+interface ETagManifest {
+	version: number;
+	lastModified: string;
+	etags: { [filePath: string]: string };
+}
+
+/**
+ * Path of the ETag manifest in the static assets.
+ */
+const ETAG_MANIFEST_PATH = '/etag-manifest.json';
+
+const HttpNotModified = 304;
+
+/**
+ * Headers a 304 response repeats from the full response.
+ */
+const NOT_MODIFIED_HEADERS = ['Cache-Control', 'Content-Location', 'ETag', 'Expires', 'Last-Modified', 'Vary'];
+
+/**
+ * Compares an If-None-Match header with an ETag using the weak comparison function.
+ */
+const matchesETag = (ifNoneMatch: string, etag: string): boolean => {
+	const opaqueTag = (tag: string): string => tag.trim().replace(/^W\//, '');
+
+	return ifNoneMatch.split(',').some(tag => tag.trim() === '*' || opaqueTag(tag) === opaqueTag(etag));
+};
+
+/**
+ * Checks whether the client copy is still current. If-Modified-Since is only evaluated
+ * without If-None-Match, as required by RFC 9110.
+ */
+const isNotModified = (request: Request, etag: string, lastModified: string): boolean => {
+	const ifNoneMatch = request.headers.get('If-None-Match');
+	if (ifNoneMatch) {
+		return matchesETag(ifNoneMatch, etag);
+	}
+
+	const ifModifiedSince = Date.parse(request.headers.get('If-Modified-Since') ?? '');
+
+	return !Number.isNaN(ifModifiedSince) && Date.parse(lastModified) <= ifModifiedSince;
+};
+
+/**
+ * Decodes a request path to the file path the ETags are keyed by. A path with malformed
+ * percent-encoding, e.g. a lone "%", is kept as it is and matches no file.
+ */
+const decodePathname = (pathname: string): string => {
+	try {
+		return decodeURIComponent(pathname);
+	} catch {
+		return pathname;
+	}
+};
+
+/**
+ * Returns the response with the build-time ETag and Last-Modified of the served file, or a
+ * 304 Not Modified if the request validators match them.
+ *
+ * @param request - Client request, carrying the conditional headers
+ * @param assetRequest - Request of the static asset that was served
+ * @param response - Static asset response
+ * @param env - Worker environment
+ */
+export const withConditionalRequest = async (request: Request, assetRequest: Request, response: Response, env: Env): Promise<Response> => {
+	if (!response.ok) {
+		return response;
+	}
+
+	const manifest = await loadBuildManifest<ETagManifest>(ETAG_MANIFEST_PATH, request, env);
+	const etag = manifest?.etags[decodePathname(new URL(assetRequest.url).pathname)];
+	if (!manifest || !etag) {
+		return response;
+	}
+
+	const validatedResponse = new Response(response.body, response);
+	validatedResponse.headers.set('ETag', etag);
+	validatedResponse.headers.set('Last-Modified', manifest.lastModified);
+
+	if (!isNotModified(request, etag, manifest.lastModified)) {
+		return validatedResponse;
+	}
+
+	await validatedResponse.body?.cancel();
+
+	const headers = new Headers();
+	for (const name of NOT_MODIFIED_HEADERS) {
+		const value = validatedResponse.headers.get(name);
+		if (value) {
+			headers.set(name, value);
+		}
+	}
+
+	return new Response(null, { headers, status: HttpNotModified });
+};
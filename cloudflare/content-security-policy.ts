@@ -0,0 +1,54 @@
+import { loadBuildManifest } from './build-manifest';
+
+/**
+ * Per-route Content-Security-Policy header values written by the post-build assets processor,
+ * see createContentSecurityPolicyManifest in post-build-assets-processor-plugin.ts.
+ */
+interface ContentSecurityPolicyManifest {
+	version: number;
+	default: string;
+	routes: { [route: string]: string };
+}
+
+/**
+ * Path of the Content-Security-Policy manifest in the static assets.
+ */
+const CSP_MANIFEST_PATH = '/content-security-policy.json';
+
+/**
+ * Maps a request path to the HTML file the policy was generated for, null if the path has
+ * malformed percent-encoding, e.g. a lone "%".
+ */
+const toHtmlRoute = (pathname: string): string | null => {
+	try {
+		const decoded = decodeURIComponent(pathname);
+		if (decoded.endsWith('/')) {
+			return `${decoded}index.html`;
+		}
+
+		return decoded.endsWith('.html') ? decoded : `${decoded}.html`;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Returns the response with the Content-Security-Policy of its route if it is an HTML response.
+ */
+export const withContentSecurityPolicy = async (request: Request, response: Response, env: Env): Promise<Response> => {
+	if (!response.headers.get('Content-Type')?.includes('text/html')) {
+		return response;
+	}
+
+	const manifest = await loadBuildManifest<ContentSecurityPolicyManifest>(CSP_MANIFEST_PATH, request, env);
+	if (!manifest) {
+		return response;
+	}
+
+	const htmlRoute = toHtmlRoute(new URL(request.url).pathname);
+	const policy = (htmlRoute === null ? null : manifest.routes[htmlRoute]) ?? manifest.default;
+	const securedResponse = new Response(response.body, response);
+	securedResponse.headers.set('Content-Security-Policy', policy);
+
+	return securedResponse;
+};
@@ -0,0 +1,106 @@
+import { loadRouteManifest } from './routing';
+import { withContentSecurityPolicy } from './content-security-policy';
+
+/**
+ * Kind of body an error response is sent with, matching what the request asked for.
+ */
+type ErrorResponseType = 'html' | 'image' | 'json' | 'text';
+
+/**
+ * Error pages used when the route manifest cannot be loaded.
+ */
+const DEFAULT_ERROR_PAGES: { [status: string]: string } = {
+	404: '/404.html',
+	500: '/500.html'
+};
+
+/**
+ * Short descriptions of the error statuses for the non-HTML responses.
+ */
+const ERROR_MESSAGES: { [status: number]: string } = {
+	404: 'Asset not found. Check the URL or try again later.',
+	500: 'Something went wrong. Try again later.'
+};
+
+/**
+ * Smallest valid image, so that image elements do not log a decoding error on top of the status.
+ */
+const EMPTY_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"/>';
+
+const IMAGE_PATTERN = /\.(avif|gif|ico|jpe?g|png|svg|webp)$/i;
+const JSON_PATTERN = /\.(json|webmanifest)$/i;
+const EXTENSION_PATTERN = /\.[^/]*$/;
+
+/**
+ * Picks the error response type from the Accept header, falling back to the path extension.
+ * Navigations and extensionless paths get the HTML error page.
+ */
+const getErrorResponseType = (request: Request): ErrorResponseType => {
+	const { pathname } = new URL(request.url);
+	const accept = request.headers.get('Accept') ?? '';
+
+	if (accept.includes('text/html')) {
+		return 'html';
+	}
+
+	if (JSON_PATTERN.test(pathname) || accept.includes('application/json')) {
+		return 'json';
+	}
+
+	if (IMAGE_PATTERN.test(pathname) || accept.startsWith('image/')) {
+		return 'image';
+	}
+
+	return pathname.endsWith('.html') || !EXTENSION_PATTERN.test(pathname) ? 'html' : 'text';
+};
+
+/**
+ * Creates a compact error response without a body worth rendering.
+ */
+const createCompactErrorResponse = (type: ErrorResponseType, status: number): Response => {
+	const message = ERROR_MESSAGES[status] ?? 'Request failed.';
+
+	switch (type) {
+		case 'json':
+			return Response.json({ status, message }, { status });
+		case 'image':
+			return new Response(EMPTY_SVG, { headers: { 'Content-Type': 'image/svg+xml' }, status });
+		default:
+			return new Response(message, { headers: { 'Content-Type': 'text/plain' }, status });
+	}
+};
+
+/**
+ * Loads the built error page for the status, with the Content-Security-Policy of that page.
+ */
+const fetchErrorPage = async (request: Request, env: Env, status: number): Promise<Response | null> => {
+	const manifest = await loadRouteManifest(request, env);
+	const errorPagePath = (manifest?.errorPages ?? DEFAULT_ERROR_PAGES)[status];
+	if (!errorPagePath) {
+		return null;
+	}
+
+	const errorPageRequest = new Request(new URL(errorPagePath, request.url));
+	const page = await env.ASSETS.fetch(errorPageRequest);
+	if (!page.ok) {
+		return null;
+	}
+
+	return withContentSecurityPolicy(errorPageRequest, new Response(page.body, { headers: page.headers, status }), env);
+};
+
+/**
+ * Creates the error response for a request: the branded error page for pages and a compact
+ * response of the requested type for everything else.
+ */
+export const createErrorResponse = async (request: Request, env: Env, status: number): Promise<Response> => {
+	const type = getErrorResponseType(request);
+	if (type === 'html') {
+		const page = await fetchErrorPage(request, env, status).catch(() => null);
+		if (page) {
+			return page;
+		}
+	}
+
+	return createCompactErrorResponse(type === 'html' ? 'text' : type, status);
+};
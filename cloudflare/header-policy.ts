@@ -0,0 +1,111 @@
+/**
+ * Response header values by header name.
+ */
+export interface HeaderValues {
+	[headerName: string]: string;
+}
+
+/**
+ * Headers to set on responses that match all of the given conditions.
+ */
+export interface HeaderRule {
+	/**
+	 * Path pattern: an exact path like "/service-worker.js", a prefix ending with "*"
+	 * like "/assets/*", or a suffix starting with "*" like "*.html".
+	 */
+	path?: string;
+	/** Content type the response must have, e.g. "text/html". */
+	contentType?: string;
+	/** Only applies to 2xx responses, e.g. so that error responses are not cached like the content. */
+	successOnly?: boolean;
+	/** Headers to set, later rules override earlier ones. */
+	headers: HeaderValues;
+}
+
+/**
+ * One year, the longest lifetime caches honor.
+ */
+const IMMUTABLE_MAX_AGE = 31536000;
+
+/**
+ * Security headers set on every response, in development as well as in production.
+ */
+export const securityHeaders: HeaderValues = {
+	'Cross-Origin-Opener-Policy': 'same-origin',
+	'Cross-Origin-Embedder-Policy': 'require-corp',
+	'Permissions-Policy': [
+		'accelerometer=()',
+		'camera=()',
+		'geolocation=()',
+		'gyroscope=()',
+		'magnetometer=()',
+		'microphone=()',
+		'usb=()',
+		'fullscreen=(self)'
+	].join(', '),
+	'X-Content-Type-Options': 'nosniff',
+	'X-Frame-Options': 'DENY',
+	'Referrer-Policy': 'strict-origin-when-cross-origin'
+};
+
+/**
+ * Production header policy. Hashed assets never change and can be cached forever, while HTML
+ * and the service worker must be revalidated so that new deployments are picked up. A missing
+ * hashed asset may still be deployed, its not found response must not be cached forever.
+ */
+export const headerRules: HeaderRule[] = [
+	{ path: '/*', headers: securityHeaders },
+	{ path: '/assets/*', successOnly: true, headers: { 'Cache-Control': `public, max-age=${IMMUTABLE_MAX_AGE}, immutable` } },
+	{ contentType: 'text/html', headers: { 'Cache-Control': 'no-cache' } },
+	{ path: '/service-worker.js', headers: { 'Cache-Control': 'no-cache' } }
+];
+
+/**
+ * Checks whether a path matches a rule path pattern.
+ */
+const matchesPath = (pattern: string, pathname: string): boolean => {
+	if (pattern.endsWith('*')) {
+		return pathname.startsWith(pattern.slice(0, -1));
+	}
+
+	if (pattern.startsWith('*')) {
+		return pathname.endsWith(pattern.slice(1));
+	}
+
+	return pathname === pattern;
+};
+
+/**
+ * Checks whether a status is a 2xx success status.
+ */
+const isSuccessStatus = (status: number): boolean => status >= 200 && status < 300;
+
+/**
+ * Collects the headers of every rule matching the path, content type and status, in rule order.
+ */
+export const getPolicyHeaders = (
+	pathname: string,
+	contentType: string,
+	rules: HeaderRule[] = headerRules,
+	status = 200
+): HeaderValues => {
+	return rules
+		.filter(rule => (!rule.path || matchesPath(rule.path, pathname))
+			&& (!rule.contentType || contentType.includes(rule.contentType))
+			&& (!rule.successOnly || isSuccessStatus(status)))
+		.reduce<HeaderValues>((headers, rule) => ({ ...headers, ...rule.headers }), {});
+};
+
+/**
+ * Returns the response with the headers of the policy applied.
+ */
+export const withHeaderPolicy = (request: Request, response: Response, rules: HeaderRule[] = headerRules): Response => {
+	const headers = getPolicyHeaders(new URL(request.url).pathname, response.headers.get('Content-Type') ?? '', rules, response.status);
+	const policedResponse = new Response(response.body, response);
+
+	for (const [name, value] of Object.entries(headers)) {
+		policedResponse.headers.set(name, value);
+	}
+
+	return policedResponse;
+};
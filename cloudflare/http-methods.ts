@@ -0,0 +1,45 @@
+/**
+ * Methods the worker answers, everything else gets 405 Method Not Allowed.
+ */
+export const ALLOWED_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Request headers the worker evaluates, allowed in cross-origin requests.
+ */
+const ALLOWED_REQUEST_HEADERS = ['If-Modified-Since', 'If-None-Match', 'If-Range', 'Range'];
+
+/**
+ * One day, how long browsers may cache a preflight response.
+ */
+const PREFLIGHT_MAX_AGE = 86400;
+
+const HttpNoContent = 204;
+const HttpMethodNotAllowed = 405;
+
+/**
+ * Answers OPTIONS requests: CORS preflights get the allowed methods and headers,
+ * other OPTIONS requests only the Allow header.
+ */
+export const createOptionsResponse = (request: Request): Response => {
+	const headers = new Headers({ Allow: ALLOWED_METHODS.join(', ') });
+
+	const isPreflight = request.headers.has('Origin') && request.headers.has('Access-Control-Request-Method');
+	if (isPreflight) {
+		headers.set('Access-Control-Allow-Origin', '*');
+		headers.set('Access-Control-Allow-Methods', ALLOWED_METHODS.join(', '));
+		headers.set('Access-Control-Allow-Headers', ALLOWED_REQUEST_HEADERS.join(', '));
+		headers.set('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE));
+	}
+
+	return new Response(null, { headers, status: HttpNoContent });
+};
+
+/**
+ * Creates the 405 response for methods the worker does not answer.
+ */
+export const createMethodNotAllowedResponse = (): Response => {
+	return new Response('Method Not Allowed', {
+		headers: { Allow: ALLOWED_METHODS.join(', '), 'Content-Type': 'text/plain' },
+		status: HttpMethodNotAllowed
+	});
+};
@@ -1,24 +1,70 @@
+import { ALLOWED_METHODS, createMethodNotAllowedResponse, createOptionsResponse } from './http-methods';
+import { createErrorResponse } from './error-pages';
+import { routeRequest } from './routing';
+import { withConditionalRequest } from './conditional-requests';
+import { withContentSecurityPolicy } from './content-security-policy';
+import { withHeaderPolicy } from './header-policy';
+import { withRangeRequest } from './range-requests';
+
+/**
+ * Serves a GET request from the static assets. The header policy is applied before the
+ * conditional and range handling, so that 304 and 206 responses carry the same headers.
+ */
+const handleGet = async (request: Request, env: Env): Promise<Response> => {
+	const HttpNotFound = 404;
+	const { assetRequest, redirect, isNotFound } = await routeRequest(request, env);
+	if (redirect)
+	{
+		return withHeaderPolicy(request, redirect);
+	}
+
+	if (isNotFound)
+	{
+		return withHeaderPolicy(request, await createErrorResponse(request, env, HttpNotFound));
+	}
+
+	//A failing asset fetch is reported as a server error instead of an uncaught exception.
+	const response = await env.ASSETS.fetch(assetRequest).catch(() => null);
+	if (!response)
+	{
+		const HttpInternalServerError = 500;
+		return withHeaderPolicy(request, await createErrorResponse(request, env, HttpInternalServerError));
+	}
+
+  if (response.status === HttpNotFound)
+	{
+    return withHeaderPolicy(request, await createErrorResponse(request, env, HttpNotFound));
+  }
+
+  const securedResponse = withHeaderPolicy(request, await withContentSecurityPolicy(assetRequest, response, env));
+  const validatedResponse = await withConditionalRequest(request, assetRequest, securedResponse, env);
+
+  return withRangeRequest(request, assetRequest, validatedResponse, env);
+};
+
 export default
 {
 	async fetch(request, env, _ctx): Promise<Response> {
 
-		if('GET' !== request.method)
+		if('OPTIONS' === request.method)
 		{
-			return new Response('Method Not Allowed', { status: 405 });
+			return withHeaderPolicy(request, createOptionsResponse(request));
 		}
 
-		const response = await env.ASSETS.fetch(request);
+		if(!ALLOWED_METHODS.includes(request.method))
+		{
+			return withHeaderPolicy(request, createMethodNotAllowedResponse());
+		}
 
-    const HttpNotFound = 404;
-    if (response.status === HttpNotFound)
+		//HEAD is answered like GET, without the body.
+		if('HEAD' === request.method)
 		{
-      return new Response('Asset not found. Check the URL or try again later.',
-			{
-        headers: { 'Content-Type': 'text/plain' },
-				status: HttpNotFound
-      });
-    }
-
-    return response;
+			const response = await handleGet(new Request(request, { method: 'GET' }), env);
+			await response.body?.cancel();
+
+			return new Response(null, response);
+		}
+
+		return handleGet(request, env);
 	}
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,124 @@
+import { type ByteRange, parseRange } from '../sw/byte-ranges';
+import { loadBuildManifest } from './build-manifest';
+
+/**
+ * Hashed asset paths and sizes written by the post-build assets processor,
+ * see createAssetManifest in post-build-assets-processor-plugin.ts.
+ */
+interface AssetManifest {
+	version: number;
+	assets: { [originalPath: string]: { path: string; size: number } };
+}
+
+/**
+ * Path of the asset manifest in the static assets.
+ */
+const ASSET_MANIFEST_PATH = '/asset-manifest.json';
+
+/**
+ * Media types served in parts, matching the media the post-build assets processor hashes.
+ */
+const RANGE_CONTENT_TYPES = ['video/mp4', 'video/webm'];
+
+const HttpOk = 200;
+const HttpPartialContent = 206;
+const HttpRangeNotSatisfiable = 416;
+
+/**
+ * Checks whether an If-Range header still matches the response, otherwise the full content is sent.
+ */
+const matchesIfRange = (ifRange: string | null, response: Response): boolean => {
+	if (!ifRange) {
+		return true;
+	}
+
+	if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+		return ifRange === response.headers.get('ETag');
+	}
+
+	return ifRange === response.headers.get('Last-Modified');
+};
+
+/**
+ * Returns the size of the served file: its Content-Length, or its size in the asset manifest,
+ * as the static assets binding streams files without one. null if the size is unknown.
+ */
+const getContentSize = async (request: Request, assetRequest: Request, response: Response, env: Env): Promise<number | null> => {
+	const contentLength = response.headers.get('Content-Length') ?? '';
+	if (/^\d+$/.test(contentLength)) {
+		return Number(contentLength);
+	}
+
+	const manifest = await loadBuildManifest<AssetManifest>(ASSET_MANIFEST_PATH, request, env);
+	const { pathname } = new URL(assetRequest.url);
+
+	return Object.values(manifest?.assets ?? {}).find(asset => `/${asset.path}` === pathname)?.size ?? null;
+};
+
+/**
+ * Streams the bytes of a range of a body, skipping the bytes before it and cancelling the rest,
+ * so that media is never read into memory as a whole.
+ */
+const sliceBody = (body: ReadableStream<Uint8Array>, range: ByteRange): ReadableStream<Uint8Array> => {
+	let offset = 0;
+
+	return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+		transform: (chunk, controller) => {
+			const chunkStart = offset;
+			offset += chunk.byteLength;
+
+			if (offset > range.start && chunkStart <= range.end) {
+				controller.enqueue(chunk.subarray(Math.max(range.start - chunkStart, 0), range.end + 1 - chunkStart));
+			}
+
+			if (offset > range.end) {
+				controller.terminate();
+			}
+		}
+	}));
+};
+
+/**
+ * Returns the response with Accept-Ranges for media, and the requested part of it as
+ * 206 Partial Content, or 416 Range Not Satisfiable, if the request has a Range header.
+ * Ranges of files with an unknown size are answered with the full content.
+ *
+ * @param request - Client request, carrying the Range and If-Range headers
+ * @param assetRequest - Request of the static asset that was served
+ * @param response - Static asset response
+ * @param env - Worker environment
+ */
+export const withRangeRequest = async (request: Request, assetRequest: Request, response: Response, env: Env): Promise<Response> => {
+	const contentType = response.headers.get('Content-Type') ?? '';
+	if (!response.ok || !RANGE_CONTENT_TYPES.some(type => contentType.includes(type))) {
+		return response;
+	}
+
+	const mediaResponse = new Response(response.body, response);
+	mediaResponse.headers.set('Accept-Ranges', 'bytes');
+
+	const rangeHeader = request.headers.get('Range');
+	if (!rangeHeader || response.status !== HttpOk || !matchesIfRange(request.headers.get('If-Range'), mediaResponse)) {
+		return mediaResponse;
+	}
+
+	const size = await getContentSize(request, assetRequest, mediaResponse, env);
+	const range = size === null ? null : parseRange(rangeHeader, size);
+	if (!range || !mediaResponse.body) {
+		return mediaResponse;
+	}
+
+	const headers = new Headers(mediaResponse.headers);
+	if (range === 'unsatisfiable') {
+		await mediaResponse.body.cancel();
+		headers.delete('Content-Type');
+		headers.delete('Content-Length');
+		headers.set('Content-Range', `bytes */${size}`);
+		return new Response(null, { headers, status: HttpRangeNotSatisfiable });
+	}
+
+	headers.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+	headers.set('Content-Length', String(range.end - range.start + 1));
+
+	return new Response(sliceBody(mediaResponse.body, range), { headers, status: HttpPartialContent });
+};
@@ -0,0 +1,92 @@
+import { loadBuildManifest } from './build-manifest';
+
+/**
+ * Canonical page URLs written by the post-build assets processor,
+ * see createRouteManifest in post-build-assets-processor-plugin.ts.
+ */
+interface RouteManifest {
+	version: number;
+	trailingSlash: 'always' | 'never' | 'directory';
+	routes: { [routePath: string]: string };
+	errorPages: { [status: string]: string };
+}
+
+/**
+ * Path of the route manifest in the static assets.
+ */
+const ROUTE_MANIFEST_PATH = '/route-manifest.json';
+
+/**
+ * Status of the redirect from a non-canonical page URL.
+ */
+const HttpMovedPermanently = 301;
+
+/**
+ * Outcome of routing a request: the request for the static asset to serve, a redirect, or not
+ * found for files that are not served at their own URL.
+ */
+export type RouteResult =
+	| { assetRequest: Request; redirect?: never; isNotFound?: never }
+	| { assetRequest?: never; redirect: Response; isNotFound?: never }
+	| { assetRequest?: never; redirect?: never; isNotFound: true };
+
+/**
+ * Loads the route manifest from the static assets.
+ */
+export const loadRouteManifest = (request: Request, env: Env): Promise<RouteManifest | null> => {
+	return loadBuildManifest<RouteManifest>(ROUTE_MANIFEST_PATH, request, env);
+};
+
+/**
+ * Lists the paths that are served by the same page as the given path, e.g. "/another-page.html"
+ * and "/another-page/" for "/another-page", or "/index.html" for "/".
+ */
+const getAlternatePaths = (pathname: string): string[] => {
+	if (pathname.endsWith('/index.html')) {
+		const directory = pathname.slice(0, -'index.html'.length);
+		return [directory, directory.slice(0, -1)].filter(Boolean);
+	}
+
+	if (pathname.endsWith('.html')) {
+		return [pathname.slice(0, -'.html'.length)];
+	}
+
+	return pathname.endsWith('/') ? [pathname.slice(0, -1)] : [`${pathname}/`];
+};
+
+/**
+ * Creates a redirect to the canonical path, keeping the query string.
+ */
+const redirectTo = (url: URL, routePath: string): Response => {
+	return Response.redirect(new URL(`${routePath}${url.search}`, url).toString(), HttpMovedPermanently);
+};
+
+/**
+ * Maps a request to the HTML file of its page. Canonical page URLs are served from their HTML
+ * file, other URLs of a page redirect to the canonical one, the error pages are only served with
+ * their error status and everything else is passed through.
+ */
+export const routeRequest = async (request: Request, env: Env): Promise<RouteResult> => {
+	const manifest = await loadRouteManifest(request, env);
+	if (!manifest) {
+		return { assetRequest: request };
+	}
+
+	const url = new URL(request.url);
+	const htmlPath = manifest.routes[url.pathname];
+	if (htmlPath) {
+		return { assetRequest: new Request(new URL(htmlPath, url), request) };
+	}
+
+	const canonicalPath = getAlternatePaths(url.pathname).find(routePath => routePath in manifest.routes);
+	if (canonicalPath) {
+		return { redirect: redirectTo(url, canonicalPath) };
+	}
+
+	//Served at their own URL, the error pages would answer with 200 and be indexed.
+	if (Object.values(manifest.errorPages).includes(url.pathname)) {
+		return { isNotFound: true };
+	}
+
+	return { assetRequest: request };
+};
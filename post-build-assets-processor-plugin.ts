@@ -1,9 +1,12 @@
 import * as cheerio from 'cheerio';
-import type { Logger, Plugin, ResolvedConfig } from 'vite';
+import type { Logger, Plugin, ResolvedConfig, Rollup } from 'vite';
 import path, { resolve } from 'node:path';
+import { createRequire } from 'node:module';
 import crypto from 'node:crypto';
+import { execFileSync } from 'node:child_process';
 import fs from 'node:fs';
 import { glob } from 'glob';
+import zlib from 'node:zlib';
 
 
 /**
@@ -81,27 +84,243 @@ interface AssetMappings {
 }
 
 
+/**
+ * Describes a single hashed asset in the emitted asset manifest.
+ */
+interface AssetManifestEntry {
+	/** Hashed asset path relative to the client output directory. */
+	path: string;
+	/** File size in bytes. */
+	size: number;
+	/** Hex encoded SHA-256 digest of the file content. */
+	hash: string;
+	/** MIME type derived from the file extension. */
+	type: string;
+	/** HTML pages, relative to the client output directory, that reference the asset. */
+	pages: string[];
+}
+
+
+/**
+ * Machine-readable manifest of the build output, written next to the HTML files so that
+ * the Cloudflare worker, the service worker and deploy scripts share one source of truth.
+ * @example
+ * {
+ *   "version": 1,
+ *   "assets": {
+ *     "images/logo.svg": {
+ *       "path": "assets/images/logo-14224dea.svg",
+ *       "size": 1497,
+ *       "hash": "3b0f…",
+ *       "type": "image/svg+xml",
+ *       "pages": ["directory/index.html", "index.html"]
+ *     }
+ *   }
+ * }
+ */
+interface AssetManifest {
+	/** Format version, see ASSET_MANIFEST_VERSION. */
+	version: number;
+	/** Maps from original asset path to its hashed output entry. */
+	assets: { [originalPath: string]: AssetManifestEntry };
+}
+
+
+/**
+ * File name of the asset manifest in the client output directory.
+ */
+const ASSET_MANIFEST_FILENAME = 'asset-manifest.json';
+
+
+/**
+ * Version of the asset manifest format. Increment when the shape of AssetManifest changes.
+ */
+const ASSET_MANIFEST_VERSION = 1;
+
+
+/**
+ * MIME types for the file extensions the processor emits or copies.
+ */
+const MIME_TYPES: { [extension: string]: string } = {
+	'.avif': 'image/avif',
+	'.css': 'text/css',
+	'.eot': 'application/vnd.ms-fontobject',
+	'.gif': 'image/gif',
+	'.html': 'text/html',
+	'.ico': 'image/x-icon',
+	'.jpeg': 'image/jpeg',
+	'.jpg': 'image/jpeg',
+	'.js': 'text/javascript',
+	'.json': 'application/json',
+	'.mp3': 'audio/mpeg',
+	'.mp4': 'video/mp4',
+	'.otf': 'font/otf',
+	'.png': 'image/png',
+	'.svg': 'image/svg+xml',
+	'.ttf': 'font/ttf',
+	'.wav': 'audio/wav',
+	'.webm': 'video/webm',
+	'.webmanifest': 'application/manifest+json',
+	'.webp': 'image/webp',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2'
+};
+
+
+/**
+ * Returns the MIME type for a file path based on its extension.
+ *
+ * @param filePath - Path of the file
+ * @returns MIME type, or application/octet-stream if the extension is unknown
+ */
+const getMimeType = (filePath: string): string => {
+	return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+};
+
+
+/**
+ * How a URL is written, rewritten URLs keep the style of the URL they replace.
+ */
+type UrlStyle = 'absolute' | 'scheme-relative' | 'root-relative' | 'relative';
+
+
+/**
+ * Returns the URL the source directory is served from, with a trailing slash.
+ *
+ * @param siteBaseUrl - Base URL of the site, e.g. https://test.com
+ * @returns The site root URL
+ */
+const getSiteRootUrl = (siteBaseUrl: string): URL => {
+	return new URL(`${siteBaseUrl.replace(/\/+$/, '')}/`, 'http://localhost/');
+};
+
+
+/**
+ * Returns the base URL the relative references of a page resolve against: its <base href>
+ * resolved against the page URL, or the page URL if there is none.
+ *
+ * @param $ - Loaded page
+ * @param page - Page path relative to the site root
+ * @param siteRootUrl - URL the site root is served from
+ * @returns The document base URL
+ */
+const getDocumentBaseUrl = ($: cheerio.CheerioAPI, page: string, siteRootUrl: URL): URL => {
+	const pageUrl = new URL(page, siteRootUrl);
+	const baseHref = $('base[href]').first().attr('href');
+
+	try {
+		return baseHref ? new URL(baseHref, pageUrl) : pageUrl;
+	} catch {
+		//Browsers ignore a <base href> that does not parse.
+		return pageUrl;
+	}
+};
+
+
+/**
+ * Resolves a reference the way browsers do and returns the path of the file it points to.
+ *
+ * @param url - URL as written in the document
+ * @param documentBaseUrl - Base URL of the document the URL is in
+ * @param siteRootUrl - URL the site root is served from
+ * @returns Path relative to the site root without query and fragment, or null if the URL is not
+ * part of the site, e.g. other origins and data URIs
+ */
+const resolveSitePath = (url: string, documentBaseUrl: URL, siteRootUrl: URL): string | null => {
+	try {
+		const resolvedUrl = new URL(url.trim(), documentBaseUrl);
+		if (resolvedUrl.origin !== siteRootUrl.origin || !resolvedUrl.pathname.startsWith(siteRootUrl.pathname)) {
+			return null;
+		}
+
+		return decodeURIComponent(resolvedUrl.pathname.slice(siteRootUrl.pathname.length));
+	} catch {
+		return null;
+	}
+};
+
+
+/**
+ * Tells how a URL is written.
+ *
+ * @param url - URL as written in the document
+ * @returns The style of the URL
+ */
+const getUrlStyle = (url: string): UrlStyle => {
+	const trimmedUrl = url.trim();
+
+	if (/^[a-z][a-z0-9+.-]*:/i.test(trimmedUrl)) {
+		return 'absolute';
+	}
+
+	if (trimmedUrl.startsWith('//')) {
+		return 'scheme-relative';
+	}
+
+	return trimmedUrl.startsWith('/') ? 'root-relative' : 'relative';
+};
+
+
+/**
+ * Writes the URL of a site path in the given style.
+ *
+ * @param sitePath - Path relative to the site root
+ * @param style - Style of the URL it replaces
+ * @param documentBaseUrl - Base URL relative URLs are written against
+ * @param siteRootUrl - URL the site root is served from
+ * @returns The URL, without query and fragment
+ */
+const formatSiteUrl = (sitePath: string, style: UrlStyle, documentBaseUrl: URL, siteRootUrl: URL): string => {
+	//Dot segment so that a colon in the first segment does not parse as a scheme.
+	const siteUrl = new URL(`./${sitePath}`, siteRootUrl);
+
+	if (style === 'absolute') {
+		return `${siteUrl.origin}${siteUrl.pathname}`;
+	}
+
+	if (style === 'scheme-relative') {
+		return `//${siteUrl.host}${siteUrl.pathname}`;
+	}
+
+	if (style === 'root-relative') {
+		return siteUrl.pathname;
+	}
+
+	//A relative URL with a colon in its first segment would parse as a scheme.
+	const relativeUrl = path.posix.relative(documentBaseUrl.pathname.replace(/[^/]*$/, ''), siteUrl.pathname);
+	return relativeUrl.split('/')[0].includes(':') ? `./${relativeUrl}` : relativeUrl;
+};
+
+
 /**
  * Finds assets in a string by looking for URLs that match asset patterns.
  *
  * @param str - String to search for asset references
  * @param baseUrl - Base URL to identify absolute references
  * @param srcDir - Source directory to resolve asset paths
+ * @param documentBaseUrl - Base URL of the document the string is in, relative URLs resolve against it
+ * @param onProblem - Called when the reference does not resolve to exactly one file
  * @returns Array of asset entries found in the string
  */
 const findAssetsInString = (
 	str: string,
 	baseUrl: string,
-	srcDir: string
+	srcDir: string,
+	documentBaseUrl: URL,
+	onProblem?: ReferenceProblemHandler
 ): AssetEntry[] => {
 	const entries: AssetEntry[] = []
 
-	//Strip origin if present.
-	let p = str.startsWith(baseUrl) ? str.slice(baseUrl.length) : str
-	p = p.split(/[?#]/)[0].replace(/^\/+/, '')  // drop query/hash & leading slash
+	//Other origins, data URIs and URLs above the site root are not assets of the site.
+	const p = resolveSitePath(str, documentBaseUrl, getSiteRootUrl(baseUrl))
+	if (p === null) {
+		return entries
+	}
+
+	const isSiteAbsolute = getUrlStyle(str) !== 'relative'
 
 	//Only match known extensions.
-	if (!/\.(jpg|jpeg|png|svg|gif|webp|avif|mp4|webm|ico)$/i.test(p)) {
+	if (!/\.(jpg|jpeg|png|svg|gif|webp|avif|mp4|webm|ico|woff2?|ttf|otf|eot)$/i.test(p)) {
 		return entries
 	}
 
@@ -112,13 +331,23 @@ const findAssetsInString = (
 		return entries
 	}
 
+	//A path from the site root names exactly one file, a file of the same name elsewhere is not it.
+	if (isSiteAbsolute) {
+		onProblem?.('missing-site-file', p, [])
+		return entries
+	}
+
 	//2) Fallback: glob basename anywhere under srcDir.
 	const name = path.basename(p)
-	const matches = glob.sync(`${srcDir}/**/${name}`)
+	const matches = glob.sync(`${srcDir}/**/${name}`).sort()
 	if (matches.length > 0) {
 		entries.push({ originalPath: p, fullPath: matches[0] })
 	}
 
+	if (matches.length !== 1) {
+		onProblem?.(matches.length === 0 ? 'unresolved' : 'ambiguous', p, matches)
+	}
+
 	return entries
 }
 
@@ -129,9 +358,17 @@ const findAssetsInString = (
  * @param obj - JSON object to search for asset references
  * @param baseUrl - Base URL to identify absolute references
  * @param srcDir - Source directory to resolve asset paths
+ * @param documentBaseUrl - Base URL of the document, relative URLs resolve against it
+ * @param onProblem - Called for each reference that does not resolve to exactly one file
  * @returns Array of asset entries found in the JSON
  */
-const findAssetsInJson = (obj: unknown, baseUrl: string, srcDir: string): AssetEntry[] => {
+const findAssetsInJson = (
+	obj: unknown,
+	baseUrl: string,
+	srcDir: string,
+	documentBaseUrl: URL,
+	onProblem?: ReferenceProblemHandler
+): AssetEntry[] => {
 	if (!obj || typeof obj !== 'object') {
 		return [];
 	}
@@ -140,13 +377,13 @@ const findAssetsInJson = (obj: unknown, baseUrl: string, srcDir: string): AssetE
 
 	for (const [_key, value] of Object.entries(obj)) {
 		if (typeof value === 'string') {
-			entries.push(...findAssetsInString(value, baseUrl, srcDir));
+			entries.push(...findAssetsInString(value, baseUrl, srcDir, documentBaseUrl, onProblem));
 		} else if (Array.isArray(value)) {
 			value.forEach(item => {
-				entries.push(...findAssetsInJson(item, baseUrl, srcDir));
+				entries.push(...findAssetsInJson(item, baseUrl, srcDir, documentBaseUrl, onProblem));
 			});
 		} else if (typeof value === 'object' && value !== null) {
-			entries.push(...findAssetsInJson(value, baseUrl, srcDir));
+			entries.push(...findAssetsInJson(value, baseUrl, srcDir, documentBaseUrl, onProblem));
 		}
 	}
 
@@ -160,282 +397,679 @@ const findAssetsInJson = (obj: unknown, baseUrl: string, srcDir: string): AssetE
  * @param content - Content to analyze
  * @param baseUrl - Base URL to identify absolute references
  * @param srcDir - Source directory to resolve asset paths
+ * @param documentBaseUrl - Base URL of the document, relative URLs resolve against it
+ * @param onProblem - Called for each reference that does not resolve to exactly one file
  * @returns Array of asset entries found
  */
-const findAssetsInJsonOrString = (content: string, baseUrl: string, srcDir: string): AssetEntry[] => {
+const findAssetsInJsonOrString = (
+	content: string,
+	baseUrl: string,
+	srcDir: string,
+	documentBaseUrl: URL,
+	onProblem?: ReferenceProblemHandler
+): AssetEntry[] => {
 	//First check if it looks like JSON.
 	const trimmed = content.trim();
 	if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
 		try {
 			const json = JSON.parse(content);
-			return findAssetsInJson(json, baseUrl, srcDir);
+			return findAssetsInJson(json, baseUrl, srcDir, documentBaseUrl, onProblem);
 		} catch {
 			// If parsing fails, fall through to string processing.
 		}
 	}
 
-	return findAssetsInString(content, baseUrl, srcDir);
+	return findAssetsInString(content, baseUrl, srcDir, documentBaseUrl, onProblem);
 };
 
 
 /**
- * Finds unreferenced assets in HTML files by analyzing various tag types.
- *
- * @param srcDir - Source directory to search
- * @param baseUrl - Base URL for identifying references
- * @returns Object mapping asset paths to their full filesystem paths for Rollup input
+ * How the value a reference extractor reads holds URLs:
+ * - url: the value is a single URL.
+ * - srcset: a comma separated list of URLs with width or pixel density descriptors.
+ * - json: JSON whose string values may be URLs, e.g. JSON-LD. Values that are not valid JSON
+ *   are treated as a single URL.
  */
-const findUnreferencedAssets = (
-	srcDir: string,
-	baseUrl: string,
-	logger: Logger
-): { [key: string]: string } => {
-	const htmlFiles = glob.sync(`${srcDir}/**/*.html`);
-	const entries: { [key: string]: string } = {};
-	const seen = new Set<string>();
+type ReferenceValueType = 'url' | 'srcset' | 'json';
 
-	htmlFiles.forEach(htmlFile => {
-		const content = fs.readFileSync(htmlFile, 'utf8');
-		const $ = cheerio.load(content);
 
-		//1) <meta property="og:image">,
-		//   <meta name="twitter:image">,
-		//   <meta name="twitter:player:stream">
-		$('meta[property^="og:image"], meta[name^="twitter:image"], meta[name^="twitter:player:stream"]')
-			.each((_, el) => {
-				const url = $(el).attr('content');
-				if (url) {
-					findAssetsInString(url, baseUrl, srcDir).forEach(a => {
-						logger.info(`Found asset in meta: ${a.originalPath}`, { timestamp: true });
-						if (!seen.has(a.originalPath)) {
-							entries[a.originalPath] = a.fullPath;
-							seen.add(a.originalPath);
-						}
-					});
-				}
-			});
+/**
+ * Finds asset references in pages. The same extractors are used to discover the assets to hash
+ * and to rewrite the references to the hashed files, so that every discovered asset is rewritten.
+ * Extractors are registered by selector and attribute, see ReferenceExtractorRegistry.
+ * @example
+ * { selector: 'video[poster]', attribute: 'poster' }
+ * { selector: 'img[srcset]', attribute: 'srcset', type: 'srcset' }
+ */
+interface ReferenceExtractor {
+	/** CSS selector of the elements holding references. */
+	selector: string;
+	/** Attribute holding the references. The text content of the element when omitted. */
+	attribute?: string;
+	/** How the value holds URLs. Defaults to "url". */
+	type?: ReferenceValueType;
+}
 
-		//2) <img src="...">.
-		$('img').each((_, el) => {
-			const url = $(el).attr('src');
-			if (url) {
-				findAssetsInString(url, baseUrl, srcDir).forEach(a => {
-					if (!seen.has(a.originalPath)) {
-						entries[a.originalPath] = a.fullPath;
-						seen.add(a.originalPath);
-					}
-				});
-			}
-		});
 
-		//3) JSON-LD scripts.
-		$('script[type="application/ld+json"]').each((_, el) => {
-			const scriptContent = $(el).html();
-			if (scriptContent) {
-				try {
-					const json = JSON.parse(scriptContent);
-					findAssetsInJson(json, baseUrl, srcDir).forEach(a => {
-						if (!seen.has(a.originalPath)) {
-							entries[a.originalPath] = a.fullPath;
-							seen.add(a.originalPath);
-						}
-					});
-				} catch {
-					//If not valid JSON, treat as string
-					findAssetsInString(scriptContent, baseUrl, srcDir).forEach(a => {
-						if (!seen.has(a.originalPath)) {
-							entries[a.originalPath] = a.fullPath;
-							seen.add(a.originalPath);
-						}
-					});
-				}
-			}
-		});
-	});
+/**
+ * A URL found in a page by a reference extractor.
+ */
+interface AssetReference {
+	/** URL as written in the page. */
+	url: string;
+	/** Page path relative to the scanned directory. */
+	page: string;
+	/** Line of the element in the page, starting at 1. */
+	line: number;
+	/** Extractor that found the reference. */
+	extractor: ReferenceExtractor;
+}
 
-	//4) Also scan manifest.json if it exists.
-	const manifestPath = path.join(srcDir, 'manifest.json');
-	if (fs.existsSync(manifestPath)) {
-		const mf = fs.readFileSync(manifestPath, 'utf8');
-		findAssetsInJsonOrString(mf, baseUrl, srcDir).forEach(a => {
-			if (!seen.has(a.originalPath)) {
-				entries[a.originalPath] = a.fullPath;
-				seen.add(a.originalPath);
-			}
-		});
-	}
 
-	logger.info(`🔑 entries: ${Object.keys(entries).sort().join(', ')}`);
+/**
+ * Extractors registered by default, covering the HTML and SVG elements that reference files.
+ */
+const DEFAULT_REFERENCE_EXTRACTORS: ReferenceExtractor[] = [
+	{ selector: 'link[href]', attribute: 'href' },
+	{ selector: 'link[imagesrcset]', attribute: 'imagesrcset', type: 'srcset' },
+	{ selector: 'script[src]', attribute: 'src' },
+	{ selector: 'script[type="application/ld+json"]', type: 'json' },
+	{ selector: 'meta[content]', attribute: 'content' },
+	{ selector: 'a[href]', attribute: 'href' },
+	{ selector: 'img[src]', attribute: 'src' },
+	{ selector: 'img[srcset]', attribute: 'srcset', type: 'srcset' },
+	{ selector: 'input[src]', attribute: 'src' },
+	{ selector: 'source[src]', attribute: 'src' },
+	{ selector: 'source[srcset]', attribute: 'srcset', type: 'srcset' },
+	{ selector: 'video[src]', attribute: 'src' },
+	{ selector: 'video[poster]', attribute: 'poster' },
+	{ selector: 'audio[src]', attribute: 'src' },
+	{ selector: 'track[src]', attribute: 'src' },
+	{ selector: 'embed[src]', attribute: 'src' },
+	{ selector: 'object[data]', attribute: 'data' },
+	{ selector: 'use[href]', attribute: 'href' },
+	{ selector: 'use[xlink\\:href]', attribute: 'xlink:href' },
+	{ selector: 'image[href]', attribute: 'href' },
+	{ selector: 'image[xlink\\:href]', attribute: 'xlink:href' }
+];
 
-	return entries;
-};
+
+/**
+ * Reference extractors by selector and attribute. An extractor with the same selector and
+ * attribute as an added one replaces it.
+ */
+type ReferenceExtractorRegistry = Map<string, ReferenceExtractor>;
 
 
 /**
- * Handles missing assets by copying them to the output directory with a hashed filename.
+ * Adds a reference extractor to a registry.
  *
- * @param baseDir - Base directory for the project
- * @param assetsDir - Directory containing assets
- * @param assetConfig - Asset configuration settings
- * @param assetMappings - Mapping of original asset paths to hashed versions
- * @param logger - Vite logger for reporting progress
- * @returns Updated asset mappings with missing assets handled
+ * @param registry - Registry to add the extractor to
+ * @param extractor - Extractor to add
  */
-const processMissingAssets = (
-  baseDir: string,
-  assetsDir: string,
-	assetConfig: AssetConfig,
-  assetMappings: AssetMappings,
-  logger: Logger
-): AssetMappings => {
-
-	//Gather source assets to compare against ones in build target
-	//to cross check for missing assets.
-  const sourceAssets = findUnreferencedAssets('src', assetConfig.siteBaseUrl, logger);
-  const updatedMappings = { ...assetMappings };
-  const missingAssets: string[] = [];
+const addReferenceExtractor = (registry: ReferenceExtractorRegistry, extractor: ReferenceExtractor): void => {
+	registry.set(`${extractor.selector} @${extractor.attribute ?? 'text'}`, extractor);
+};
 
-  //Find assets missing from the mappings.
-  for (const [sourcePath, _fullSourcePath] of Object.entries(sourceAssets)) {
-    if (!assetMappings[sourcePath]) {
-      missingAssets.push(sourcePath);
-      logger.warn(`Asset missing in output: ${sourcePath}`, { timestamp: true });
-    }
-  }
 
-  //Handle missing assets, add also hash to file name for cache busting.
-  if (missingAssets.length > 0) {
-    logger.warn(`Found ${missingAssets.length} assets missing in build output:`, { timestamp: true });
+/**
+ * Creates the extractor registry of a plugin instance: the default extractors and the
+ * extractors of its options, which do not affect other instances.
+ *
+ * @param extractors - Extractors of the plugin options
+ * @returns The registry
+ */
+const createReferenceExtractorRegistry = (extractors: ReferenceExtractor[] = []): ReferenceExtractorRegistry => {
+	const registry: ReferenceExtractorRegistry = new Map();
+	[...DEFAULT_REFERENCE_EXTRACTORS, ...extractors].forEach(extractor => addReferenceExtractor(registry, extractor));
 
-    for (const missingAsset of missingAssets) {
-      try {
-        const sourcePath = sourceAssets[missingAsset];
+	return registry;
+};
 
-        //Read file content for hashing.
-        const fileContent = fs.readFileSync(sourcePath);
-        const hash = crypto
-          .createHash('md5')
-          .update(fileContent)
-          .digest('hex')
-          .substring(0, 8);
 
-        //Parse the asset path
-        const parsedAsset = path.parse(missingAsset);
-        const dirname = parsedAsset.dir;
-        const basename = parsedAsset.name;
-        const ext = parsedAsset.ext;
+/**
+ * Splits a srcset into its candidates. Candidates are split at commas followed by whitespace
+ * only, as data: URLs contain commas.
+ *
+ * @param srcset - srcset attribute value
+ * @returns The candidates, each a URL and an optional descriptor
+ */
+const getSrcsetCandidates = (srcset: string): string[] => {
+	return srcset.split(/,\s+/).map(candidate => candidate.trim()).filter(Boolean);
+};
 
-        //.Create target directory in assets folder (if not already present).
-        const assetDir = dirname ? `${dirname}` : '';
-        const targetDir = path.join(assetsDir, assetDir);
 
-        if (!fs.existsSync(targetDir)) {
-          fs.mkdirSync(targetDir, { recursive: true });
-        }
+/**
+ * Passes each URL of a reference value to a function and puts the returned URL in its place.
+ *
+ * @param value - Attribute value or text content
+ * @param type - How the value holds URLs
+ * @param mapUrl - Returns the URL to use instead, or the URL itself
+ * @returns The value with the returned URLs, unchanged if every URL was returned as is
+ */
+const mapReferenceUrls = (value: string, type: ReferenceValueType, mapUrl: (url: string) => string): string => {
+	let isChanged = false;
+	const map = (url: string): string => {
+		const mappedUrl = mapUrl(url);
+		isChanged ||= mappedUrl !== url;
+		return mappedUrl;
+	};
 
-        //Create hashed filename.
-        const hashedFilename = `${basename}-${hash}${ext}`;
-        const targetPath = path.join(targetDir, hashedFilename);
+	if (type === 'srcset') {
+		const candidates = getSrcsetCandidates(value).map(candidate => {
+			const [url, descriptor] = candidate.split(/\s+/);
+			return `${map(url)}${descriptor ? ' ' + descriptor : ''}`;
+		});
 
-        //Copy the file.
-        fs.copyFileSync(sourcePath, targetPath);
+		return isChanged ? candidates.join(', ') : value;
+	}
 
-        //Create relative path for mapping.
-        const relativeTargetPath = path.relative(baseDir, targetPath).replace(/\\/g, '/');
+	if (type === 'json') {
+		try {
+			const mapJson = (node: unknown): unknown => {
+				if (typeof node === 'string') {
+					return map(node);
+				}
 
-        //Add to mappings.
-        updatedMappings[missingAsset] = relativeTargetPath;
+				if (Array.isArray(node)) {
+					return node.map(mapJson);
+				}
 
-        logger.info(`Copied missing asset: ${sourcePath} -> ${targetPath}`, { timestamp: true });
-        logger.info(`Added mapping: ${missingAsset} -> ${relativeTargetPath}`, { timestamp: true });
+				return node && typeof node === 'object'
+					? Object.fromEntries(Object.entries(node).map(([key, item]) => [key, mapJson(item)]))
+					: node;
+			};
 
-      } catch (err) {
-        logger.error(`Failed to copy missing asset: ${err}`, { timestamp: true });
-      }
-    }
-  }
+			const json = mapJson(JSON.parse(value));
+			return isChanged ? JSON.stringify(json, null, JSON_INDENT_SPACES) : value;
+		} catch {
+			//If not valid JSON, treat as a single URL.
+		}
+	}
 
-  return updatedMappings;
+	return map(value);
 };
 
 
 /**
- * Creates a mapping of original asset paths to their hashed versions.
- * This improved version starts with source assets and cross-checks with output files.
+ * Visits the values the extractors read in a page and writes back changed values.
  *
- * @param baseDir - Base directory for the project
- * @param assetsDir - Directory containing assets
- * @param logger - Vite logger for reporting progress.
- * @returns Record mapping original asset paths to their hashed versions
+ * @param $ - Loaded page
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @param visit - Returns the new value of a reference value, or the value itself
+ * @returns The number of changed values
  */
-const createAssetMappings = (
-	baseDir: string,
-	assetsDir: string,
-	logger: Logger
-): AssetMappings => {
-	const mappings: AssetMappings = {};
-
-	//Find all hashed assets in the output directory.
-	const outputFiles = glob.sync(`${assetsDir}/**/*.{jpg,jpeg,png,svg,gif,webp,avif,mp4,webm,css,js,json}`);
+const visitReferenceValues = (
+	$: cheerio.CheerioAPI,
+	referenceExtractors: ReferenceExtractorRegistry,
+	visit: (value: string, extractor: ReferenceExtractor, line: number) => string
+): number => {
+	let changesCount = 0;
+
+	referenceExtractors.forEach(extractor => {
+		$(extractor.selector).each((_, el) => {
+			const $el = $(el);
+			const value = extractor.attribute ? $el.attr(extractor.attribute) : $el.html();
+			if (!value) {
+				return;
+			}
 
-	logger.info(`Found ${outputFiles.length} output files`, { timestamp: true });
+			const updatedValue = visit(value, extractor, el.sourceCodeLocation?.startLine ?? 0);
+			if (updatedValue === value) {
+				return;
+			}
 
-	//Create mappings for all files in the output.
-	for (const outputFile of outputFiles) {
-		const relativePath = path.relative(baseDir, outputFile).replace(/\\/g, '/');
-		const parsed = path.parse(relativePath);
+			if (extractor.attribute) {
+				$el.attr(extractor.attribute, updatedValue);
+			} else {
+				$el.html(updatedValue);
+			}
+			changesCount++;
+		});
+	});
 
-		//Skip files without hash pattern.
-		const parts = parsed.name.split('-');
-		if (parts.length < 2) {
-			continue;
-		}
+	return changesCount;
+};
 
-		//The basename without the hash.
-		const baseName = parts.slice(0, -1).join('-');
-		const directory = parsed.dir.replace(/^assets\//, '');
 
-		//Create key that includes directory path, filename, and extension.
-		const fullKey = directory	? `${directory}/${baseName}${parsed.ext}`	: `${baseName}${parsed.ext}`;
-		mappings[fullKey] = relativePath;
-		logger.info(`Mapped output file: ${fullKey} -> ${relativePath}.`, { timestamp: true });
+/**
+ * Extracts the references of a page with the extractors.
+ *
+ * @param $ - Page loaded with source code locations, for the line numbers
+ * @param page - Page path relative to the scanned directory
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @returns The references in extractor order
+ */
+const extractAssetReferences = ($: cheerio.CheerioAPI, page: string, referenceExtractors: ReferenceExtractorRegistry): AssetReference[] => {
+	const references: AssetReference[] = [];
 
-		//Also add bare name for root-level files.
-		if (!directory) {
-			mappings[`${baseName}${parsed.ext}`] = relativePath;
-		}
-	}
+	visitReferenceValues($, referenceExtractors, (value, extractor, line) => {
+		mapReferenceUrls(value, extractor.type ?? 'url', url => {
+			references.push({ url, page, line, extractor });
+			return url;
+		});
 
-	logger.info(`Created ${Object.keys(mappings).length} mappings from output files.`, { timestamp: true });
+		return value;
+	});
 
-	return mappings;
+	return references;
 };
 
 
 /**
- * Updates a URL to use the hashed asset path if available.
- *
- * @param url - URL to potentially update
- * @param assetMappings - Mapping of original asset paths to hashed versions
- * @param assetConfig - Asset configuration settings.
- * @returns Updated URL or original if no mapping exists
+ * Why an asset reference is reported in strict mode:
+ * - unresolved: no file under the source directory has the referenced name.
+ * - ambiguous: the referenced path does not exist and its basename matches several files.
+ * - missing-site-file: a site-absolute or root-relative URL, e.g. https://test.com/images/logo.svg
+ *   or /images/logo.svg, points to a file that does not exist.
+ * - copy-failed: the referenced file could not be copied to the output.
  */
-const updateUrl = (url: string, assetConfig: AssetConfig, assetMappings: AssetMappings): string => {
-	const isAbsolute = url.startsWith(assetConfig.siteBaseUrl);
-	let assetPath = url;
+type ReferenceProblemKind = 'unresolved' | 'ambiguous' | 'missing-site-file' | 'copy-failed';
 
-	if (isAbsolute) {
-		assetPath = url.slice(assetConfig.siteBaseUrl.length);
-	}
 
-	assetPath = assetPath.replace(/^\/+/, '');
+/**
+ * Receives a reference that does not resolve to exactly one file.
+ */
+type ReferenceProblemHandler = (kind: ReferenceProblemKind, assetPath: string, candidates: string[]) => void;
 
-	if (assetMappings[assetPath]) {
-		const hashedPath = assetMappings[assetPath];
-		return isAbsolute ? `${assetConfig.siteBaseUrl}/${hashedPath}` : `/${hashedPath}`;
+
+/**
+ * An asset reference strict mode reports.
+ */
+interface ReferenceProblem {
+	kind: ReferenceProblemKind;
+	/** Referenced path relative to the source directory, without the origin, query and fragment. */
+	assetPath: string;
+	/** Page or manifest the reference was found in, relative to the source directory. */
+	source: string;
+	/** Line of the reference in the source, 0 if unknown. */
+	line: number;
+	/** Files the basename matched, the first one is used when the build is not failed. */
+	candidates: string[];
+	/** Error of a failed copy. */
+	error?: string;
+}
+
+
+/**
+ * Strict mode settings and the problems found so far.
+ */
+interface ReferenceCheck {
+	/** Public directory, references to its files are served as is. Empty if there is none. */
+	publicDir: string;
+	/** Asset paths that are not reported, exact paths relative to the source directory or patterns. */
+	allowlist: (string | RegExp)[];
+	problems: ReferenceProblem[];
+}
+
+
+/**
+ * Records a reference problem unless the path is allowlisted or a file of the public directory.
+ *
+ * @param check - Strict mode settings and problems
+ * @param problem - Problem to record
+ */
+const recordReferenceProblem = (check: ReferenceCheck, problem: ReferenceProblem): void => {
+	const isAllowed = check.allowlist.some(allowed => typeof allowed === 'string'
+		? allowed.replace(/^\/+/, '') === problem.assetPath
+		: allowed.test(problem.assetPath));
+	const isPublicFile = !!check.publicDir && fs.existsSync(path.join(check.publicDir, problem.assetPath));
+
+	if (!isAllowed && (problem.kind === 'copy-failed' || !isPublicFile)) {
+		check.problems.push(problem);
 	}
+};
 
-	return url;
+
+/**
+ * Describes a reference problem for the report.
+ */
+const describeReferenceProblem = (problem: ReferenceProblem): string => {
+	const location = problem.line ? `${problem.source}:${problem.line}` : problem.source;
+	const candidates = problem.candidates.join(', ');
+
+	const descriptions: { [kind in ReferenceProblemKind]: string } = {
+		'unresolved': `${problem.assetPath} does not match any source file`,
+		'ambiguous': `${problem.assetPath} does not exist and its basename matches ${candidates}`,
+		'missing-site-file': `site URL ${problem.assetPath} points to a file that does not exist`,
+		'copy-failed': `${problem.assetPath} could not be copied to the output: ${problem.error}`
+	};
+
+	return `${location}: ${descriptions[problem.kind]}`;
+};
+
+
+/**
+ * Reports the reference problems. Fails the build in strict mode, logs a warning in warn mode.
+ *
+ * @param problems - Problems found while processing the assets
+ * @param mode - true to fail the build, 'warn' to log the report
+ * @param logger - Vite logger for the warn mode
+ */
+const reportReferenceProblems = (problems: ReferenceProblem[], mode: true | 'warn', logger: Logger): void => {
+	if (problems.length === 0) {
+		return;
+	}
+
+	const report = [
+		`Found ${problems.length} asset reference problem${problems.length === 1 ? '' : 's'}:`,
+		...problems.map(problem => `  - ${describeReferenceProblem(problem)}`),
+		'Fix the references or add the paths to the strictAllowlist option.'
+	].join('\n');
+
+	if (mode === 'warn') {
+		logger.warn(report, { timestamp: true });
+		return;
+	}
+
+	throw new Error(`PostBuildAssetsProcessorPlugin: ${report}`);
+};
+
+
+/**
+ * Finds the assets the pages reference with the extractors of the plugin instance, and the
+ * assets of the web app manifest, so that assets Rollup did not emit are hashed too.
+ *
+ * @param srcDir - Source directory to search
+ * @param baseUrl - Base URL for identifying references
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @param referenceCheck - Collects the references that do not resolve to exactly one file
+ * @returns Object mapping asset paths to their full filesystem paths for Rollup input
+ */
+const findUnreferencedAssets = (
+	srcDir: string,
+	baseUrl: string,
+	referenceExtractors: ReferenceExtractorRegistry,
+	referenceCheck: ReferenceCheck,
+	logger: Logger
+): { [key: string]: string } => {
+	const htmlFiles = glob.sync(`${srcDir}/**/*.html`);
+	const entries: { [key: string]: string } = {};
+
+	//Records the problems of the references found in a page or manifest.
+	const recordProblemsOf = (source: string, line: number): ReferenceProblemHandler => (kind, assetPath, candidates) => {
+		recordReferenceProblem(referenceCheck, {
+			kind,
+			assetPath,
+			source,
+			line,
+			candidates: candidates.map(candidate => path.relative(srcDir, candidate).replace(/\\/g, '/'))
+		});
+	};
+
+	const siteRootUrl = getSiteRootUrl(baseUrl);
+
+	htmlFiles.forEach(htmlFile => {
+		const $ = cheerio.load(fs.readFileSync(htmlFile, 'utf8'), { sourceCodeLocationInfo: true });
+		const page = path.relative(srcDir, htmlFile).replace(/\\/g, '/');
+		const documentBaseUrl = getDocumentBaseUrl($, page, siteRootUrl);
+
+		extractAssetReferences($, page, referenceExtractors).forEach(reference => {
+			findAssetsInString(reference.url, baseUrl, srcDir, documentBaseUrl, recordProblemsOf(page, reference.line)).forEach(a => {
+				if (!entries[a.originalPath]) {
+					logger.info(`Found asset ${a.originalPath} in ${reference.page}:${reference.line} (${reference.extractor.selector}).`, { timestamp: true });
+					entries[a.originalPath] = a.fullPath;
+				}
+			});
+		});
+	});
+
+	//Also scan manifest.json if it exists.
+	const manifestPath = path.join(srcDir, 'manifest.json');
+	if (fs.existsSync(manifestPath)) {
+		const mf = fs.readFileSync(manifestPath, 'utf8');
+		findAssetsInJsonOrString(mf, baseUrl, srcDir, new URL('manifest.json', siteRootUrl), recordProblemsOf('manifest.json', 0)).forEach(a => {
+			entries[a.originalPath] ??= a.fullPath;
+		});
+	}
+
+	logger.info(`🔑 entries: ${Object.keys(entries).sort().join(', ')}`);
+
+	return entries;
+};
+
+
+/**
+ * Copies a source asset to the assets directory with a content hash in its filename.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetsDir - Directory containing assets
+ * @param originalPath - Original asset path relative to the source directory
+ * @param sourcePath - Full filesystem path to the source asset
+ * @param logger - Vite logger for reporting progress
+ * @returns Hashed asset path relative to the base directory
+ */
+const copyAssetWithHash = (
+	baseDir: string,
+	assetsDir: string,
+	originalPath: string,
+	sourcePath: string,
+	logger: Logger
+): string => {
+	//Read file content for hashing.
+	const fileContent = fs.readFileSync(sourcePath);
+	const hash = crypto
+		.createHash('md5')
+		.update(fileContent)
+		.digest('hex')
+		.substring(0, 8);
+
+	//Parse the asset path
+	const parsedAsset = path.parse(originalPath);
+	const dirname = parsedAsset.dir;
+	const basename = parsedAsset.name;
+	const ext = parsedAsset.ext;
+
+	//.Create target directory in assets folder (if not already present).
+	const assetDir = dirname ? `${dirname}` : '';
+	const targetDir = path.join(assetsDir, assetDir);
+
+	if (!fs.existsSync(targetDir)) {
+		fs.mkdirSync(targetDir, { recursive: true });
+	}
+
+	//Create hashed filename.
+	const hashedFilename = `${basename}-${hash}${ext}`;
+	const targetPath = path.join(targetDir, hashedFilename);
+
+	//Copy the file.
+	fs.copyFileSync(sourcePath, targetPath);
+
+	//Create relative path for mapping.
+	const relativeTargetPath = path.relative(baseDir, targetPath).replace(/\\/g, '/');
+
+	logger.info(`Copied missing asset: ${sourcePath} -> ${targetPath}`, { timestamp: true });
+	logger.info(`Added mapping: ${originalPath} -> ${relativeTargetPath}`, { timestamp: true });
+
+	return relativeTargetPath;
+};
+
+
+/**
+ * Handles missing assets by copying them to the output directory with a hashed filename.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetsDir - Directory containing assets
+ * @param assetConfig - Asset configuration settings
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @param referenceCheck - Collects unresolved references and failed copies
+ * @param logger - Vite logger for reporting progress
+ * @returns Updated asset mappings with missing assets handled
+ */
+const processMissingAssets = (
+  baseDir: string,
+  assetsDir: string,
+	assetConfig: AssetConfig,
+  assetMappings: AssetMappings,
+	referenceExtractors: ReferenceExtractorRegistry,
+	referenceCheck: ReferenceCheck,
+  logger: Logger
+): AssetMappings => {
+
+	//Gather source assets to compare against ones in build target
+	//to cross check for missing assets.
+  const sourceAssets = findUnreferencedAssets('src', assetConfig.siteBaseUrl, referenceExtractors, referenceCheck, logger);
+  const updatedMappings = { ...assetMappings };
+  const missingAssets: string[] = [];
+
+  //Find assets missing from the mappings.
+  for (const [sourcePath, _fullSourcePath] of Object.entries(sourceAssets)) {
+    if (!assetMappings[sourcePath]) {
+      missingAssets.push(sourcePath);
+      logger.warn(`Asset missing in output: ${sourcePath}`, { timestamp: true });
+    }
+  }
+
+  //Handle missing assets, add also hash to file name for cache busting.
+  if (missingAssets.length > 0) {
+    logger.warn(`Found ${missingAssets.length} assets missing in build output:`, { timestamp: true });
+
+    for (const missingAsset of missingAssets) {
+      try {
+        //Add to mappings.
+        updatedMappings[missingAsset] = copyAssetWithHash(baseDir, assetsDir, missingAsset, sourceAssets[missingAsset], logger);
+      } catch (err) {
+        logger.error(`Failed to copy missing asset: ${err}`, { timestamp: true });
+        recordReferenceProblem(referenceCheck, {
+          kind: 'copy-failed',
+          assetPath: missingAsset,
+          source: path.relative('src', sourceAssets[missingAsset]).replace(/\\/g, '/'),
+          line: 0,
+          candidates: [],
+          error: err instanceof Error ? err.message : String(err)
+        });
+      }
+    }
+  }
+
+  return updatedMappings;
+};
+
+
+/**
+ * Creates a mapping of source asset paths to the output files Rollup emitted for them, from the
+ * originalFileNames of the bundle. Assets with identical content are emitted once, every source
+ * path of such an asset maps to the same file.
+ *
+ * @param bundle - Client bundle from generateBundle
+ * @param srcDir - Source directory, the Vite root the original file names are relative to
+ * @returns Mapping of source asset paths to output paths relative to the client output directory
+ */
+const createBundleMappings = (bundle: Rollup.OutputBundle, srcDir: string): AssetMappings => {
+	const mappings: AssetMappings = {};
+
+	Object.values(bundle).forEach(output => {
+		if (output.type !== 'asset') {
+			return;
+		}
+
+		output.originalFileNames.forEach(originalFileName => {
+			//Vite emits paths relative to its root, other plugins may emit absolute paths.
+			const originalPath = path.relative(srcDir, path.resolve(srcDir, originalFileName)).replace(/\\/g, '/');
+			if (!originalPath.startsWith('../')) {
+				mappings[originalPath] = output.fileName;
+			}
+		});
+	});
+
+	return mappings;
+};
+
+
+/**
+ * Creates a mapping of original asset paths to their hashed versions. The mappings captured from
+ * the bundle are exact, the names of output files the bundle did not emit, e.g. files the plugin
+ * copied itself, are parsed as "name-hash.ext" instead.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetsDir - Directory containing assets
+ * @param bundleMappings - Mappings captured from the bundle, see createBundleMappings
+ * @param logger - Vite logger for reporting progress.
+ * @returns Record mapping original asset paths to their hashed versions
+ */
+const createAssetMappings = (
+	baseDir: string,
+	assetsDir: string,
+	bundleMappings: AssetMappings,
+	logger: Logger
+): AssetMappings => {
+	const mappings: AssetMappings = { ...bundleMappings };
+	const bundleFiles = new Set(Object.values(bundleMappings));
+
+	logger.info(`Mapped ${Object.keys(bundleMappings).length} assets from the bundle metadata.`, { timestamp: true });
+
+	//Find the hashed assets in the output directory the bundle did not emit.
+	const outputFiles = glob.sync(`${assetsDir}/**/*.{jpg,jpeg,png,svg,gif,webp,avif,mp4,webm,ico,woff,woff2,ttf,otf,eot,css,js,json}`)
+		.filter(outputFile => !bundleFiles.has(path.relative(baseDir, outputFile).replace(/\\/g, '/')));
+
+	logger.info(`Found ${outputFiles.length} output files without bundle metadata`, { timestamp: true });
+
+	//Create mappings for the remaining files in the output.
+	for (const outputFile of outputFiles) {
+		const relativePath = path.relative(baseDir, outputFile).replace(/\\/g, '/');
+		const parsed = path.parse(relativePath);
+
+		//Skip files without hash pattern.
+		const parts = parsed.name.split('-');
+		if (parts.length < 2) {
+			continue;
+		}
+
+		//The basename without the hash.
+		const baseName = parts.slice(0, -1).join('-');
+		const directory = parsed.dir.replace(/^assets\//, '');
+
+		//Create key that includes directory path, filename, and extension.
+		const fullKey = directory	? `${directory}/${baseName}${parsed.ext}`	: `${baseName}${parsed.ext}`;
+		mappings[fullKey] ??= relativePath;
+		logger.info(`Mapped output file: ${fullKey} -> ${relativePath}.`, { timestamp: true });
+
+		//Also add bare name for root-level files.
+		if (!directory) {
+			mappings[`${baseName}${parsed.ext}`] ??= relativePath;
+		}
+	}
+
+	logger.info(`Created ${Object.keys(mappings).length} mappings from output files.`, { timestamp: true });
+
+	return mappings;
+};
+
+
+/**
+ * Base URLs of a document whose references are rewritten.
+ */
+interface DocumentBaseUrls {
+	/** Base URL the references were written against, at the location of the source document. */
+	source: URL;
+	/** Base URL at the location of the emitted document, relative URLs are rewritten against it. */
+	output: URL;
+}
+
+
+/**
+ * Updates a URL to use the hashed asset path if available. The URL keeps its style: relative
+ * URLs stay relative, root-relative URLs stay root-relative and absolute URLs stay absolute.
+ *
+ * @param url - URL to potentially update
+ * @param documentBaseUrls - Base URLs of the document the URL is in
+ * @param assetConfig - Asset configuration settings.
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @returns Updated URL or original if no mapping exists
+ */
+const updateUrl = (url: string, documentBaseUrls: DocumentBaseUrls, assetConfig: AssetConfig, assetMappings: AssetMappings): string => {
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+	const assetPath = resolveSitePath(url, documentBaseUrls.source, siteRootUrl);
+	if (assetPath === null || !assetMappings[assetPath]) {
+		return url;
+	}
+
+	//Keep the query and fragment, e.g. the symbol of an SVG sprite in <use href>.
+	const suffix = url.trim().match(/[?#].*$/)?.[0] ?? '';
+	const hashedUrl = formatSiteUrl(assetMappings[assetPath], getUrlStyle(url), documentBaseUrls.output, siteRootUrl);
+
+	return `${hashedUrl}${suffix}`;
 };
 
 
@@ -443,11 +1077,17 @@ const updateUrl = (url: string, assetConfig: AssetConfig, assetMappings: AssetMa
  * Recursively processes manifest JSON to update URLs.
  *
  * @param obj - Object to update.
+ * @param documentBaseUrls - Base URLs of the manifest.
  * @param assetConfig - Asset configuration settings.
  * @param assetMappings - Mapping of original asset paths to hashed versions.
  * @returns Whether any values were changed.
  */
-const processManifestUrls = (obj: unknown, assetConfig: AssetConfig, assetMappings: AssetMappings): boolean => {
+const processManifestUrls = (
+	obj: unknown,
+	documentBaseUrls: DocumentBaseUrls,
+	assetConfig: AssetConfig,
+	assetMappings: AssetMappings
+): boolean => {
 	if (!obj || typeof obj !== 'object') {
 		return false;
 	}
@@ -457,7 +1097,7 @@ const processManifestUrls = (obj: unknown, assetConfig: AssetConfig, assetMappin
 
 	Object.keys(typedObj).forEach(key => {
 		if (key !== 'icons' && typeof typedObj[key] === 'string') {
-			const newVal = updateUrl(typedObj[key] as string, assetConfig, assetMappings);
+			const newVal = updateUrl(typedObj[key] as string, documentBaseUrls, assetConfig, assetMappings);
 			if (newVal !== typedObj[key]) {
 				typedObj[key] = newVal;
 				changed = true;
@@ -466,16 +1106,16 @@ const processManifestUrls = (obj: unknown, assetConfig: AssetConfig, assetMappin
 			const arr = typedObj[key] as unknown[];
 			arr.forEach((item, index) => {
 				if (typeof item === 'string') {
-					const newVal = updateUrl(item, assetConfig, assetMappings);
+					const newVal = updateUrl(item, documentBaseUrls, assetConfig, assetMappings);
 					if (newVal !== item) {
 						arr[index] = newVal;
 						changed = true;
 					}
-				} else if (processManifestUrls(item, assetConfig, assetMappings)) {
+				} else if (processManifestUrls(item, documentBaseUrls, assetConfig, assetMappings)) {
 					changed = true;
 				}
 			});
-		} else if (typeof typedObj[key] === 'object' && processManifestUrls(typedObj[key],  assetConfig, assetMappings)) {
+		} else if (typeof typedObj[key] === 'object' && processManifestUrls(typedObj[key], documentBaseUrls, assetConfig, assetMappings)) {
 			changed = true;
 		}
 	});
@@ -507,12 +1147,19 @@ const fixMimeType = (mimeType: string): string => {
  * Updates a manifest.json file with hashed asset URLs.
  *
  * @param manifestPath - Path to the manifest file.
+ * @param documentBaseUrls - Base URLs of the manifest, its URLs resolve against its own URL.
  * @param assetConfig - Asset configuration settings.
  * @param assetMappings - Mapping of original asset paths to hashed versions.
  * @param logger - Vite logger for reporting updates.
  * @returns Whether the manifest was updated.
  */
-const updateManifestFile = (manifestPath: string,	assetConfig: AssetConfig,	assetMappings: AssetMappings,	logger: Logger): boolean => {
+const updateManifestFile = (
+	manifestPath: string,
+	documentBaseUrls: DocumentBaseUrls,
+	assetConfig: AssetConfig,
+	assetMappings: AssetMappings,
+	logger: Logger
+): boolean => {
 	if (!fs.existsSync(manifestPath)) {
 		return false;
 	}
@@ -528,7 +1175,7 @@ const updateManifestFile = (manifestPath: string,	assetConfig: AssetConfig,	asse
 				const newIcon = { ...icon };
 
 				if (icon.src) {
-					newIcon.src = updateUrl(icon.src, assetConfig, assetMappings);
+					newIcon.src = updateUrl(icon.src, documentBaseUrls, assetConfig, assetMappings);
 					if (newIcon.src !== icon.src) {
 						updated = true;
 					}
@@ -551,7 +1198,7 @@ const updateManifestFile = (manifestPath: string,	assetConfig: AssetConfig,	asse
 
 
 		//Process other potential asset URLs.
-		if (processManifestUrls(manifest, assetConfig, assetMappings) || updated) {
+		if (processManifestUrls(manifest, documentBaseUrls, assetConfig, assetMappings) || updated) {
 			fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, JSON_INDENT_SPACES));
 			logger.info(`Updated manifest file: ${path.relative(process.cwd(), manifestPath)}`, {
 				timestamp: true
@@ -570,239 +1217,2203 @@ const updateManifestFile = (manifestPath: string,	assetConfig: AssetConfig,	asse
 
 
 /**
- * Updates HTML files to reference hashed asset paths.
- *
- * @param baseDir - Base directory for the project
- * @param assetMappings - Mapping of original asset paths to hashed versions
- * @param logger - Vite logger for reporting updates
+ * Matches url() references in CSS, with or without quotes.
  */
-const updateHtmlFiles = (
-	baseDir: string,
-	assetConfig: AssetConfig,
-	assetMappings: AssetMappings,
-	logger: Logger
-): void => {
-	//Log the asset mappings for debugging.
-	logger.info(`Asset mappings: ${Object.keys(assetMappings).length} entries`, { timestamp: true });
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+?)\1\s*\)/gi;
 
-	Object.entries(assetMappings).forEach(([key, value]) => {
-		logger.info(`  ${key} -> ${value}`, {
-			timestamp: true
-		});
-	});
 
+/**
+ * Matches image-set() and -webkit-image-set() functions, allowing one level of nested parentheses.
+ */
+const CSS_IMAGE_SET_PATTERN = /((?:-webkit-)?image-set\()((?:[^()]|\([^()]*\))*)\)/gi;
 
-	//Process manifest.json files first.
-	const manifestFiles = glob.sync(`${baseDir}/**/manifest*.json`);
-	manifestFiles.forEach(manifestPath => {
-		if (updateManifestFile(manifestPath, assetConfig, assetMappings, logger)) {
-			logger.info(`Successfully updated ${path.relative(baseDir, manifestPath)} with hashed asset URLs`, {
-				timestamp: true
-			});
-		}
-	});
 
-	//Then process HTML files.
-	const htmlFiles = glob.sync(`${baseDir}/**/*.html`);
-	logger.info(`Found ${htmlFiles.length} HTML files to process`, {
-		timestamp: true
-	});
+/**
+ * Matches bare quoted strings inside image-set(), quoted strings inside url() are matched by CSS_URL_PATTERN.
+ */
+const CSS_IMAGE_SET_STRING_PATTERN = /(^|[\s,])(['"])([^'"]+)\2/g;
 
-	let updatedFileCount = 0;
-	const updatedFiles: string[] = [];
 
-	htmlFiles.forEach(htmlFile => {
-		const relativePath = path.relative(baseDir, htmlFile);
-		logger.info(`Processing HTML file: ${relativePath}`, {
-			timestamp: true
+/**
+ * Matches @import rules with a quoted string, @import url() is matched by CSS_URL_PATTERN.
+ */
+const CSS_IMPORT_PATTERN = /(@import\s+)(['"])([^'"]+)\2/gi;
+
+
+/**
+ * Rewrites every url(), image-set() and @import reference in CSS text.
+ *
+ * @param css - CSS text to rewrite
+ * @param rewriteReference - Returns the new URL for a reference, or the reference itself to leave it as-is
+ * @returns Rewritten CSS text
+ */
+const rewriteCssReferences = (css: string, rewriteReference: (url: string) => string): string => {
+	return css
+		.replace(CSS_IMAGE_SET_PATTERN, (_match, fn: string, args: string) => {
+			const updatedArgs = args.replace(CSS_IMAGE_SET_STRING_PATTERN, (_m, prefix: string, quote: string, url: string) => {
+				return `${prefix}${quote}${rewriteReference(url)}${quote}`;
+			});
+			return `${fn}${updatedArgs})`;
+		})
+		.replace(CSS_URL_PATTERN, (match, quote: string, url: string) => {
+			const updatedUrl = rewriteReference(url.trim());
+			return updatedUrl === url.trim() ? match : `url(${quote}${updatedUrl}${quote})`;
+		})
+		.replace(CSS_IMPORT_PATTERN, (_match, rule: string, quote: string, url: string) => {
+			return `${rule}${quote}${rewriteReference(url)}${quote}`;
+		});
+};
+
+
+/**
+ * Resolves a CSS reference to its hashed asset path. Source assets that are not yet in the
+ * output are copied with a hashed filename the same way processMissingAssets does. The
+ * rewritten URL keeps the style of the reference: relative, root-relative or absolute.
+ *
+ * @param url - Referenced URL as written in the CSS
+ * @param documentBaseUrl - URL of the stylesheet, or the base URL of the page for inline styles
+ * @param context - Directories, configuration and the mappings to resolve against and update
+ * @returns Rewritten URL, or the original URL if it does not reference a known asset
+ */
+const resolveCssReference = (
+	url: string,
+	documentBaseUrl: URL,
+	context: {
+		baseDir: string,
+		assetsDir: string,
+		srcDir: string,
+		assetConfig: AssetConfig,
+		assetMappings: AssetMappings,
+		logger: Logger
+	}
+): string => {
+	const { baseDir, assetsDir, srcDir, assetConfig, assetMappings, logger } = context;
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+
+	//Skip data URIs and fragment references, e.g. SVG filters.
+	if (url.startsWith('data:') || url.startsWith('#')) {
+		return url;
+	}
+
+	//Relative references resolve against the referencing file first and the site root second,
+	//as stylesheets are emitted to another directory than their source.
+	const urlStyle = getUrlStyle(url);
+	const candidates = [...new Set([
+		resolveSitePath(url, documentBaseUrl, siteRootUrl),
+		urlStyle === 'relative' ? resolveSitePath(url, siteRootUrl, siteRootUrl) : null
+	])].filter((candidate): candidate is string => candidate !== null);
+
+	//Keep query and hash, e.g. font URLs like "font.eot?#iefix".
+	const suffix = url.trim().match(/[?#].*$/)?.[0] ?? '';
+
+	for (const candidate of candidates) {
+		let hashedPath = assetMappings[candidate];
+
+		if (!hashedPath) {
+			const [asset] = findAssetsInString(candidate, assetConfig.siteBaseUrl, srcDir, siteRootUrl);
+			if (!asset) {
+				continue;
+			}
+
+			try {
+				hashedPath = copyAssetWithHash(baseDir, assetsDir, asset.originalPath, asset.fullPath, logger);
+				assetMappings[asset.originalPath] = hashedPath;
+			} catch (err) {
+				logger.error(`Failed to copy asset referenced from CSS: ${err}`, { timestamp: true });
+				continue;
+			}
+		}
+
+		return `${formatSiteUrl(hashedPath, urlStyle, documentBaseUrl, siteRootUrl)}${suffix}`;
+	}
+
+	return url;
+};
+
+
+/**
+ * Output files that can reference hashed files by name.
+ */
+const REFERENCING_FILES_PATTERN = '**/*.{html,css,js,json}';
+
+
+/**
+ * Matches the content hash Rollup and copyAssetWithHash append to a file name.
+ */
+const FILENAME_HASH_PATTERN = /-[A-Za-z0-9_-]{8}$/;
+
+
+/**
+ * Limits the renaming of files whose references to renamed files changed, which cannot settle
+ * if hashed files reference each other.
+ */
+const MAX_REHASH_PASSES = 10;
+
+
+/**
+ * Renames rewritten hashed files after the hash of their new content. Hashed files are cached
+ * as immutable, under the old name clients would keep the old content. References to renamed
+ * files are updated in the output, hashed files that changed that way are renamed in turn.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetsDir - Directory containing assets, only hashed files in it are renamed
+ * @param rewrittenFiles - Rewritten files relative to the base directory
+ * @param assetMappings - Mapping of original asset paths to hashed versions, updated in place
+ * @param logger - Vite logger for reporting progress
+ */
+const rehashRewrittenFiles = (
+	baseDir: string,
+	assetsDir: string,
+	rewrittenFiles: string[],
+	assetMappings: AssetMappings,
+	logger: Logger
+): void => {
+	const assetsPath = path.relative(baseDir, assetsDir).replace(/\\/g, '/');
+	const isHashedFile = (filePath: string): boolean => {
+		return filePath.startsWith(`${assetsPath}/`) && FILENAME_HASH_PATTERN.test(path.posix.parse(filePath).name);
+	};
+
+	let pendingFiles = rewrittenFiles.filter(isHashedFile);
+
+	for (let pass = 0; pendingFiles.length > 0; pass++) {
+		if (pass === MAX_REHASH_PASSES) {
+			logger.warn(`Stopped renaming rewritten files that reference each other: ${pendingFiles.join(', ')}`, { timestamp: true });
+			return;
+		}
+
+		//Renamed files by their old file name, the directory does not change.
+		const renamedFileNames = new Map<string, string>();
+
+		pendingFiles.forEach(filePath => {
+			const parsed = path.posix.parse(filePath);
+			const hash = crypto
+				.createHash('md5')
+				.update(fs.readFileSync(path.join(baseDir, filePath)))
+				.digest('hex')
+				.substring(0, 8);
+			const renamedPath = path.posix.join(parsed.dir, `${parsed.name.replace(FILENAME_HASH_PATTERN, '')}-${hash}${parsed.ext}`);
+
+			fs.renameSync(path.join(baseDir, filePath), path.join(baseDir, renamedPath));
+			renamedFileNames.set(parsed.base, path.posix.basename(renamedPath));
+			Object.keys(assetMappings)
+				.filter(originalPath => assetMappings[originalPath] === filePath)
+				.forEach(originalPath => {
+					assetMappings[originalPath] = renamedPath;
+				});
+
+			logger.info(`Renamed rewritten ${filePath} to ${renamedPath}`, { timestamp: true });
+		});
+
+		pendingFiles = [];
+		glob.sync(REFERENCING_FILES_PATTERN, { cwd: baseDir, nodir: true }).forEach(file => {
+			const filePath = file.replace(/\\/g, '/');
+			const content = fs.readFileSync(path.join(baseDir, filePath), 'utf-8');
+			let updatedContent = content;
+			renamedFileNames.forEach((renamedFileName, fileName) => {
+				updatedContent = updatedContent.split(fileName).join(renamedFileName);
+			});
+
+			if (updatedContent !== content) {
+				fs.writeFileSync(path.join(baseDir, filePath), updatedContent);
+				if (isHashedFile(filePath)) {
+					pendingFiles.push(filePath);
+				}
+			}
+		});
+	}
+};
+
+
+/**
+ * Rewrites asset references in emitted CSS files and in inline styles of HTML files.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetsDir - Directory containing assets
+ * @param srcDir - Source directory to resolve asset paths
+ * @param assetConfig - Asset configuration settings
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @param logger - Vite logger for reporting progress
+ * @returns Updated asset mappings including the assets copied for CSS references
+ */
+const updateCssReferences = (
+	baseDir: string,
+	assetsDir: string,
+	srcDir: string,
+	assetConfig: AssetConfig,
+	assetMappings: AssetMappings,
+	logger: Logger
+): AssetMappings => {
+	const updatedMappings = { ...assetMappings };
+	const context = { baseDir, assetsDir, srcDir, assetConfig, assetMappings: updatedMappings, logger };
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+
+	//1) Stylesheets.
+	const cssFiles = glob.sync(`${baseDir}/**/*.css`);
+	const rewrittenFiles: string[] = [];
+	cssFiles.forEach(cssFile => {
+		const relativePath = path.relative(baseDir, cssFile).replace(/\\/g, '/');
+		const stylesheetUrl = new URL(relativePath, siteRootUrl);
+		const content = fs.readFileSync(cssFile, 'utf-8');
+		const updatedContent = rewriteCssReferences(content, url => resolveCssReference(url, stylesheetUrl, context));
+
+		if (updatedContent !== content) {
+			fs.writeFileSync(cssFile, updatedContent);
+			rewrittenFiles.push(relativePath);
+			logger.info(`Updated CSS references in ${relativePath}`, { timestamp: true });
+		}
+	});
+
+	//The hashes in the names of the rewritten stylesheets no longer match their content.
+	rehashRewrittenFiles(baseDir, assetsDir, rewrittenFiles, updatedMappings, logger);
+
+	//2) Inline <style> blocks and style="" attributes.
+	const htmlFiles = glob.sync(`${baseDir}/**/*.html`);
+	htmlFiles.forEach(htmlFile => {
+		const relativePath = path.relative(baseDir, htmlFile).replace(/\\/g, '/');
+		const content = fs.readFileSync(htmlFile, 'utf-8');
+		const $ = cheerio.load(content);
+		let fileChanged = false;
+
+		//Inline styles resolve against the page and its <base href> like the other HTML references.
+		const documentBaseUrl = getDocumentBaseUrl($, relativePath, siteRootUrl);
+		const rewrite = (css: string): string => rewriteCssReferences(css, url => resolveCssReference(url, documentBaseUrl, context));
+
+		$('style').each((_, el) => {
+			const $el = $(el);
+			const css = $el.html() || '';
+			const updatedCss = rewrite(css);
+			if (updatedCss !== css) {
+				$el.html(updatedCss);
+				fileChanged = true;
+			}
+		});
+
+		$('[style]').each((_, el) => {
+			const $el = $(el);
+			const css = $el.attr('style') || '';
+			const updatedCss = rewrite(css);
+			if (updatedCss !== css) {
+				$el.attr('style', updatedCss);
+				fileChanged = true;
+			}
+		});
+
+		if (fileChanged) {
+			fs.writeFileSync(htmlFile, $.html());
+			logger.info(`Updated inline style references in ${relativePath}`, { timestamp: true });
+		}
+	});
+
+	return updatedMappings;
+};
+
+
+/**
+ * Updates HTML files to reference hashed asset paths.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @param logger - Vite logger for reporting updates
+ */
+const updateHtmlFiles = (
+	baseDir: string,
+	assetConfig: AssetConfig,
+	assetMappings: AssetMappings,
+	referenceExtractors: ReferenceExtractorRegistry,
+	logger: Logger
+): void => {
+	//Log the asset mappings for debugging.
+	logger.info(`Asset mappings: ${Object.keys(assetMappings).length} entries`, { timestamp: true });
+
+	Object.entries(assetMappings).forEach(([key, value]) => {
+		logger.info(`  ${key} -> ${value}`, {
+			timestamp: true
+		});
+	});
+
+
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+
+	//Process manifest.json files first. They are emitted from the manifest.json of the source
+	//root, the URLs in them were written against that location.
+	const manifestFiles = glob.sync(`${baseDir}/**/manifest*.json`);
+	manifestFiles.forEach(manifestPath => {
+		const documentBaseUrls = {
+			source: new URL('manifest.json', siteRootUrl),
+			output: new URL(path.relative(baseDir, manifestPath).replace(/\\/g, '/'), siteRootUrl)
+		};
+
+		if (updateManifestFile(manifestPath, documentBaseUrls, assetConfig, assetMappings, logger)) {
+			logger.info(`Successfully updated ${path.relative(baseDir, manifestPath)} with hashed asset URLs`, {
+				timestamp: true
+			});
+		}
+	});
+
+	//Then process HTML files.
+	const htmlFiles = glob.sync(`${baseDir}/**/*.html`);
+	logger.info(`Found ${htmlFiles.length} HTML files to process`, {
+		timestamp: true
+	});
+
+	let updatedFileCount = 0;
+	const updatedFiles: string[] = [];
+
+	htmlFiles.forEach(htmlFile => {
+		const relativePath = path.relative(baseDir, htmlFile);
+		logger.info(`Processing HTML file: ${relativePath}`, {
+			timestamp: true
+		});
+
+		const content = fs.readFileSync(htmlFile, 'utf-8');
+		const $ = cheerio.load(content);
+		let fileChanged = false;
+		let changesCount = 0;
+		const documentBaseUrl = getDocumentBaseUrl($, relativePath.replace(/\\/g, '/'), siteRootUrl);
+
+		//Update manifest link.
+		$('link[rel="manifest"]').each((_, el) => {
+			const $el = $(el);
+			const href = $el.attr('href');
+			if (href && href.endsWith('manifest.json')) {
+				//Find the hashed manifest file...
+				const manifestFiles = glob.sync(`${baseDir}/**/manifest-*.json`);
+				if (manifestFiles.length > 0) {
+					const relativeManifestPath = path.relative(baseDir, manifestFiles[0]).replace(/\\/g, '/');
+					$el.attr('href', formatSiteUrl(relativeManifestPath, getUrlStyle(href), documentBaseUrl, siteRootUrl));
+					fileChanged = true;
+					changesCount++;
+				}
+			}
+		});
+
+		//Update the references of the extractors, the same ones the assets were discovered with.
+		const documentBaseUrls = { source: documentBaseUrl, output: documentBaseUrl };
+		const referenceChangesCount = visitReferenceValues($, referenceExtractors, (value, extractor) => {
+			return mapReferenceUrls(value, extractor.type ?? 'url', url => updateUrl(url, documentBaseUrls, assetConfig, assetMappings));
+		});
+
+		fileChanged ||= referenceChangesCount > 0;
+		changesCount += referenceChangesCount;
+
+		//Only write the file if changes were made.
+		if (fileChanged) {
+			fs.writeFileSync(htmlFile, $.html());
+			updatedFiles.push(relativePath);
+			logger.info(`Updated ${relativePath} with ${changesCount} changes`, {
+				timestamp: true
+			});
+		} else {
+			logger.info(`No changes needed for ${relativePath}`, {
+				timestamp: true
+			});
+		}
+	});
+
+	if (updatedFileCount > 0) {
+		logger.info(`Updated ${updatedFileCount} of ${htmlFiles.length} HTML files with hashed asset URLs:`, {
+			timestamp: true
+		});
+		updatedFiles.forEach(file => {
+			logger.info(`  - ${file}`, { timestamp: true });
+		});
+	}
+};
+
+
+/**
+ * Modern image formats generated for responsive images, in order of preference.
+ */
+type ResponsiveImageFormat = 'avif' | 'webp';
+
+
+/**
+ * Options for the responsive image stage.
+ */
+interface ResponsiveImageOptions {
+	/** Target widths in pixels, widths larger than the source image are skipped. Defaults to [320, 640, 1280]. */
+	widths?: number[];
+	/** Formats to generate, in order of preference. Defaults to ['avif', 'webp']. */
+	formats?: ResponsiveImageFormat[];
+	/** Value of the sizes attribute for images that do not have one. Defaults to "100vw". */
+	sizes?: string;
+}
+
+
+/**
+ * WASM codecs used for decoding, resizing and encoding images.
+ */
+interface ImageCodecs {
+	/** Decoders by lowercase file extension. */
+	decode: { [extension: string]: (buffer: ArrayBuffer) => Promise<ImageData> };
+	resize: (image: ImageData, size: { width: number, height: number }) => Promise<ImageData>;
+	encode: { [format in ResponsiveImageFormat]: (image: ImageData) => Promise<ArrayBuffer> };
+}
+
+
+/**
+ * Resized and re-encoded versions of one source image.
+ */
+interface ImageVariants {
+	/** Intrinsic width of the source image. */
+	width: number;
+	/** Intrinsic height of the source image. */
+	height: number;
+	/** Variant paths relative to the base directory with their widths, per format. */
+	srcsets: { format: ResponsiveImageFormat, candidates: { path: string, width: number }[] }[];
+	/** Mappings for the generated variant files. */
+	mappings: AssetMappings;
+}
+
+
+/**
+ * Default widths of generated responsive image variants.
+ */
+const DEFAULT_RESPONSIVE_IMAGE_WIDTHS = [320, 640, 1280];
+
+
+/**
+ * Raster formats that are decoded to generate responsive image variants.
+ */
+const RESPONSIVE_IMAGE_SOURCE_PATTERN = /\.(jpe?g|png)$/i;
+
+
+/**
+ * The ImageData the codecs construct, which Node does not have.
+ */
+class NodeImageData {
+	data: Uint8ClampedArray;
+	width: number;
+	height: number;
+
+	constructor(data: Uint8ClampedArray, width: number, height: number) {
+		this.data = data;
+		this.width = width;
+		this.height = height;
+	}
+}
+
+
+/**
+ * Runs the image stage with a global ImageData, the codecs look it up globally. The global
+ * state is restored afterwards, also removing the ImageData the codecs install when imported,
+ * so that the rest of the Vite process does not see it.
+ *
+ * @param run - Image stage to run
+ * @returns The result of the stage
+ */
+const withImageData = async <T>(run: () => Promise<T>): Promise<T> => {
+	const hasImageData = 'ImageData' in globalThis;
+	const imageData = globalThis.ImageData;
+
+	if (!hasImageData) {
+		globalThis.ImageData = NodeImageData as unknown as typeof ImageData;
+	}
+
+	try {
+		return await run();
+	} finally {
+		if (hasImageData) {
+			globalThis.ImageData = imageData;
+		} else {
+			delete (globalThis as { ImageData?: typeof ImageData }).ImageData;
+		}
+	}
+};
+
+
+/**
+ * Returns the URL of the largest candidate of a srcset, by its width or pixel density descriptor.
+ *
+ * @param srcset - srcset attribute value
+ * @returns The URL, empty if the srcset has no candidates
+ */
+const getLargestSrcsetCandidate = (srcset: string): string => {
+	const candidates = getSrcsetCandidates(srcset).map(candidate => candidate.split(/\s+/));
+	const getSize = (descriptor = '1x'): number => parseFloat(descriptor) || 1;
+
+	return candidates.reduce<string[] | null>((largest, candidate) => {
+		return !largest || getSize(candidate[1]) > getSize(largest[1]) ? candidate : largest;
+	}, null)?.[0] ?? '';
+};
+
+
+/**
+ * Loads the WASM image codecs. The codecs fetch their WASM files in the browser, so in Node the
+ * modules are compiled from the installed packages and handed over explicitly.
+ *
+ * @param projectRoot - Project root used to resolve the codec packages
+ * @returns The image codecs
+ */
+const loadImageCodecs = async (projectRoot: string): Promise<ImageCodecs> => {
+	const require = createRequire(path.join(projectRoot, 'package.json'));
+	const compileWasm = (specifier: string): WebAssembly.Module => new WebAssembly.Module(fs.readFileSync(require.resolve(specifier)));
+
+	const [jpegDecode, pngDecode, resize, webpEncode, avifEncode] = await Promise.all([
+		import('@jsquash/jpeg/decode.js'),
+		import('@jsquash/png/decode.js'),
+		import('@jsquash/resize'),
+		import('@jsquash/webp/encode.js'),
+		import('@jsquash/avif/encode.js')
+	]);
+
+	//The typings of the Emscripten codecs only declare the options argument, but a compiled module is accepted too.
+	await Promise.all([
+		jpegDecode.init(compileWasm('@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm') as Parameters<typeof jpegDecode.init>[0]),
+		pngDecode.init(compileWasm('@jsquash/png/codec/pkg/squoosh_png_bg.wasm')),
+		resize.initResize(compileWasm('@jsquash/resize/lib/resize/pkg/squoosh_resize_bg.wasm')),
+		webpEncode.init(compileWasm('@jsquash/webp/codec/enc/webp_enc_simd.wasm') as Parameters<typeof webpEncode.init>[0]),
+		avifEncode.init(compileWasm('@jsquash/avif/codec/enc/avif_enc.wasm'))
+	]);
+
+	return {
+		decode: {
+			'.jpg': buffer => jpegDecode.default(buffer),
+			'.jpeg': buffer => jpegDecode.default(buffer),
+			'.png': buffer => pngDecode.default(buffer)
+		},
+		resize: (image, size) => resize.default(image, size),
+		encode: {
+			avif: image => avifEncode.default(image),
+			webp: image => webpEncode.default(image)
+		}
+	};
+};
+
+
+/**
+ * Creates resized variants of an image in every requested format next to the hashed source.
+ *
+ * @param baseDir - Base directory for the project
+ * @param hashedPath - Hashed path of the source image relative to the base directory
+ * @param originalPath - Original path of the source image relative to the source directory
+ * @param options - Responsive image options
+ * @param codecs - Image codecs
+ * @param logger - Vite logger for reporting progress
+ * @returns The generated variants
+ */
+const createImageVariants = async (
+	baseDir: string,
+	hashedPath: string,
+	originalPath: string,
+	options: ResponsiveImageOptions,
+	codecs: ImageCodecs,
+	logger: Logger
+): Promise<ImageVariants> => {
+	const fileContent = fs.readFileSync(path.join(baseDir, hashedPath));
+	const decode = codecs.decode[path.extname(hashedPath).toLowerCase()];
+	const image = await decode(fileContent.buffer.slice(fileContent.byteOffset, fileContent.byteOffset + fileContent.byteLength));
+
+	//Always offer the intrinsic width so that large viewports do not get an upscaled variant.
+	const widths = [...new Set([...(options.widths ?? DEFAULT_RESPONSIVE_IMAGE_WIDTHS), image.width])]
+		.filter(width => width <= image.width)
+		.sort((a, b) => a - b);
+
+	const parsedOriginal = path.posix.parse(originalPath);
+	const targetDir = path.posix.dirname(hashedPath);
+	const mappings: AssetMappings = {};
+	const srcsets: ImageVariants['srcsets'] = [];
+
+	for (const format of options.formats ?? ['avif', 'webp']) {
+		const candidates: ImageVariants['srcsets'][number]['candidates'] = [];
+
+		for (const width of widths) {
+			const height = Math.round(image.height * width / image.width);
+			const resized = width === image.width ? image : await codecs.resize(image, { width, height });
+			const encoded = Buffer.from(await codecs.encode[format](resized));
+			const hash = crypto.createHash('md5').update(encoded).digest('hex').substring(0, 8);
+
+			const variantPath = path.posix.join(targetDir, `${parsedOriginal.name}-${width}w-${hash}.${format}`);
+			fs.writeFileSync(path.join(baseDir, variantPath), encoded);
+
+			mappings[path.posix.join(parsedOriginal.dir, `${parsedOriginal.name}-${width}w.${format}`)] = variantPath;
+			candidates.push({ path: variantPath, width });
+			logger.info(`Created image variant: ${variantPath} (${encoded.byteLength} bytes)`, { timestamp: true });
+		}
+
+		srcsets.push({ format, candidates });
+	}
+
+	return { width: image.width, height: image.height, srcsets, mappings };
+};
+
+
+/**
+ * Rewrites raster <img> elements into <picture> markup with AVIF/WebP sources in several widths
+ * and adds intrinsic width and height attributes so that layout does not shift while loading.
+ * Raster <source> elements of a <picture> get AVIF/WebP sources with their media condition in
+ * front of them, the browser uses the first source that matches.
+ *
+ * @param baseDir - Base directory for the project
+ * @param projectRoot - Project root used to resolve the codec packages
+ * @param assetConfig - Asset configuration settings
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @param options - Responsive image options
+ * @param logger - Vite logger for reporting progress
+ * @returns Updated asset mappings including the generated variants
+ */
+const updateResponsiveImages = (
+	baseDir: string,
+	projectRoot: string,
+	assetConfig: AssetConfig,
+	assetMappings: AssetMappings,
+	options: ResponsiveImageOptions,
+	logger: Logger
+): Promise<AssetMappings> => withImageData(async () => {
+	const updatedMappings = { ...assetMappings };
+	const originalPaths = new Map(Object.entries(assetMappings).map(([originalPath, hashedPath]) => [hashedPath, originalPath]));
+	const variantsByPath = new Map<string, ImageVariants>();
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+	let codecs: ImageCodecs | null = null;
+
+	const getVariants = async (assetPath: string): Promise<ImageVariants> => {
+		let variants = variantsByPath.get(assetPath);
+		if (!variants) {
+			codecs ??= await loadImageCodecs(projectRoot);
+			const originalPath = originalPaths.get(assetPath) ?? assetPath.replace(new RegExp(`^${assetConfig.assetsSubdir}/`), '');
+			variants = await createImageVariants(baseDir, assetPath, originalPath, options, codecs, logger);
+			variantsByPath.set(assetPath, variants);
+			Object.assign(updatedMappings, variants.mappings);
+		}
+
+		return variants;
+	};
+
+	//Variant URLs are written in the style of the URL of the source image, against the page.
+	const createSources = (variants: ImageVariants, url: string, documentBaseUrl: URL, sizes: string, media?: string): string => {
+		return variants.srcsets
+			.map(({ format, candidates }) => {
+				const srcset = candidates
+					.map(candidate => `${formatSiteUrl(candidate.path, getUrlStyle(url), documentBaseUrl, siteRootUrl)} ${candidate.width}w`)
+					.join(', ');
+
+				return `<source type="image/${format}"${media ? ` media="${escapeXml(media)}"` : ''} srcset="${escapeXml(srcset)}" sizes="${escapeXml(sizes)}">`;
+			})
+			.join('');
+	};
+
+	const htmlFiles = glob.sync(`${baseDir}/**/*.html`);
+	for (const htmlFile of htmlFiles) {
+		const relativePath = path.relative(baseDir, htmlFile).replace(/\\/g, '/');
+		const $ = cheerio.load(fs.readFileSync(htmlFile, 'utf-8'));
+		const documentBaseUrl = getDocumentBaseUrl($, relativePath, siteRootUrl);
+		let changesCount = 0;
+
+		//Resolves a raster image URL to its output path, empty if it is not a raster image in the output.
+		const resolveRasterImage = (url: string): string => {
+			const assetPath = resolveSitePath(url, documentBaseUrl, siteRootUrl) ?? '';
+			if (!RESPONSIVE_IMAGE_SOURCE_PATTERN.test(assetPath)) {
+				return '';
+			}
+
+			if (!fs.existsSync(path.join(baseDir, assetPath))) {
+				logger.warn(`Responsive images: ${url} in ${relativePath} not found in output, skipping.`, { timestamp: true });
+				return '';
+			}
+
+			return assetPath;
+		};
+
+		for (const el of $('img[src]').toArray()) {
+			const $img = $(el);
+
+			//Skip images the author already made responsive.
+			const $picture = $img.parent('picture');
+			const hasModernSources = $picture.find('source[type="image/avif"], source[type="image/webp"]').length > 0;
+			if ($img.attr('srcset') || hasModernSources) {
+				continue;
+			}
+
+			const sizes = $img.attr('sizes') || options.sizes || '100vw';
+
+			//Raster sources without a type, or with a raster type, of art directed pictures.
+			for (const sourceEl of $picture.children('source[srcset]').toArray()) {
+				const $source = $(sourceEl);
+				const type = $source.attr('type');
+				const sourceUrl = getLargestSrcsetCandidate($source.attr('srcset') || '');
+				const sourcePath = !type || /^image\/(jpeg|png)$/i.test(type) ? resolveRasterImage(sourceUrl) : '';
+				if (sourcePath) {
+					$source.before(createSources(await getVariants(sourcePath), sourceUrl, documentBaseUrl, $source.attr('sizes') || sizes, $source.attr('media')));
+					changesCount++;
+				}
+			}
+
+			const assetPath = resolveRasterImage($img.attr('src') || '');
+			if (!assetPath) {
+				continue;
+			}
+
+			const variants = await getVariants(assetPath);
+			if ($picture.length === 0) {
+				$img.wrap('<picture></picture>');
+			}
+
+			//After the author's sources, so that their media conditions still take precedence.
+			$img.before(createSources(variants, $img.attr('src') || '', documentBaseUrl, sizes));
+
+			if (!$img.attr('width') && !$img.attr('height')) {
+				$img.attr('width', String(variants.width));
+				$img.attr('height', String(variants.height));
+			}
+			changesCount++;
+		}
+
+		if (changesCount > 0) {
+			fs.writeFileSync(htmlFile, $.html());
+			logger.info(`Made ${changesCount} images responsive in ${relativePath}`, { timestamp: true });
+		}
+	}
+
+	return updatedMappings;
+});
+
+
+/**
+ * Hash algorithm used for Subresource Integrity digests.
+ */
+const SRI_ALGORITHM = 'sha384';
+
+
+/**
+ * Elements that load subresources which can carry an integrity attribute, with the URL attribute.
+ */
+const SRI_SELECTORS: { selector: string, attribute: string }[] = [
+	{ selector: 'script[src]', attribute: 'src' },
+	{ selector: 'link[rel="stylesheet"][href]', attribute: 'href' },
+	{ selector: 'link[rel="modulepreload"][href]', attribute: 'href' },
+	{ selector: 'link[rel="preload"][as="script"][href], link[rel="preload"][as="style"][href]', attribute: 'href' }
+];
+
+
+/**
+ * Adds Subresource Integrity attributes to scripts, stylesheets and preloads that point to
+ * files in the build output. Must run after all rewriting so that the digests are final.
+ *
+ * See: https://developer.mozilla.org/en-US/docs/Web/Security/Subresource_Integrity
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetConfig - Asset configuration settings
+ * @param logger - Vite logger for reporting progress
+ */
+const addSubresourceIntegrity = (baseDir: string, assetConfig: AssetConfig, logger: Logger): void => {
+	const digests = new Map<string, string>();
+	const getDigest = (filePath: string): string => {
+		let digest = digests.get(filePath);
+		if (!digest) {
+			digest = `${SRI_ALGORITHM}-${crypto.createHash(SRI_ALGORITHM).update(fs.readFileSync(filePath)).digest('base64')}`;
+			digests.set(filePath, digest);
+		}
+		return digest;
+	};
+
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+	const htmlFiles = glob.sync(`${baseDir}/**/*.html`);
+	htmlFiles.forEach(htmlFile => {
+		const relativePath = path.relative(baseDir, htmlFile).replace(/\\/g, '/');
+		const $ = cheerio.load(fs.readFileSync(htmlFile, 'utf-8'));
+		const documentBaseUrl = getDocumentBaseUrl($, relativePath, siteRootUrl);
+		let changesCount = 0;
+
+		SRI_SELECTORS.forEach(({ selector, attribute }) => {
+			$(selector).each((_, el) => {
+				const $el = $(el);
+				const url = $el.attr(attribute) || '';
+
+				//Only files from this build, other origins are outside of our control.
+				const assetPath = resolveSitePath(url, documentBaseUrl, siteRootUrl);
+				if (assetPath === null) {
+					return;
+				}
+
+				const filePath = path.join(baseDir, assetPath);
+				if (!assetPath || !fs.existsSync(filePath)) {
+					logger.warn(`SRI: ${url} in ${relativePath} not found in output, skipping.`, { timestamp: true });
+					return;
+				}
+
+				$el.attr('integrity', getDigest(filePath));
+
+				//Integrity checks need a CORS request, an empty attribute is the same as "anonymous".
+				if (!$el.is('[crossorigin]')) {
+					$el.attr('crossorigin', 'anonymous');
+				}
+				changesCount++;
+			});
+		});
+
+		if (changesCount > 0) {
+			fs.writeFileSync(htmlFile, $.html());
+			logger.info(`Added ${changesCount} integrity attributes to ${relativePath}`, { timestamp: true });
+		}
+	});
+};
+
+
+/**
+ * Content-Security-Policy directives, e.g. { "script-src": ["'self'"] }.
+ */
+interface ContentSecurityPolicyDirectives {
+	[directive: string]: string[];
+}
+
+
+/**
+ * Per-route Content-Security-Policy header values generated from the final HTML.
+ * @example
+ * {
+ *   "version": 1,
+ *   "default": "default-src 'none'; script-src 'self'",
+ *   "routes": {
+ *     "/another-page.html": "default-src 'none'; script-src 'self'; style-src 'self' 'sha256-…'"
+ *   }
+ * }
+ */
+interface ContentSecurityPolicyManifest {
+	/** Format version, see CSP_MANIFEST_VERSION. */
+	version: number;
+	/** Policy for HTML responses without a route entry. */
+	default: string;
+	/** Maps from site-absolute HTML path to its policy. */
+	routes: { [route: string]: string };
+}
+
+
+/**
+ * File name of the Content-Security-Policy manifest in the client output directory.
+ */
+const CSP_MANIFEST_FILENAME = 'content-security-policy.json';
+
+
+/**
+ * Version of the Content-Security-Policy manifest format.
+ */
+const CSP_MANIFEST_VERSION = 1;
+
+
+/**
+ * Script types the browser executes and CSP therefore applies to. Other types, such as
+ * application/ld+json, are data blocks.
+ */
+const EXECUTABLE_SCRIPT_TYPES = ['', 'module', 'importmap', 'text/javascript', 'application/javascript'];
+
+
+/**
+ * Serializes directives into a Content-Security-Policy header value.
+ *
+ * @param directives - Directives to serialize
+ * @returns Header value
+ */
+const serializeContentSecurityPolicy = (directives: ContentSecurityPolicyDirectives): string => {
+	return Object.entries(directives)
+		.map(([directive, values]) => [directive, ...values].join(' '))
+		.join('; ');
+};
+
+
+/**
+ * Computes a CSP hash source for inline content.
+ *
+ * @param content - Inline script or style content
+ * @returns Hash source, e.g. 'sha256-…'
+ */
+const toCspHashSource = (content: string): string => {
+	return `'sha256-${crypto.createHash('sha256').update(content, 'utf-8').digest('base64')}'`;
+};
+
+
+/**
+ * Creates a per-route Content-Security-Policy by adding the hashes of every inline script,
+ * inline style and style attribute of each HTML page to the base directives. Must run after
+ * all HTML rewriting so that the hashes match what is served.
+ *
+ * @param baseDir - Base directory for the project
+ * @param directives - Base directives shared by every page
+ * @param logger - Vite logger for reporting progress
+ * @returns The Content-Security-Policy manifest
+ */
+const createContentSecurityPolicyManifest = (
+	baseDir: string,
+	directives: ContentSecurityPolicyDirectives,
+	logger: Logger
+): ContentSecurityPolicyManifest => {
+	const manifest: ContentSecurityPolicyManifest = {
+		version: CSP_MANIFEST_VERSION,
+		default: serializeContentSecurityPolicy(directives),
+		routes: {}
+	};
+
+	const htmlFiles = glob.sync(`${baseDir}/**/*.html`).sort();
+	htmlFiles.forEach(htmlFile => {
+		const route = `/${path.relative(baseDir, htmlFile).replace(/\\/g, '/')}`;
+		const $ = cheerio.load(fs.readFileSync(htmlFile, 'utf-8'));
+		const scriptHashes = new Set<string>();
+		const styleHashes = new Set<string>();
+		const styleAttributeHashes = new Set<string>();
+
+		$('script:not([src])').each((_, el) => {
+			const type = ($(el).attr('type') || '').trim().toLowerCase();
+			if (EXECUTABLE_SCRIPT_TYPES.includes(type)) {
+				scriptHashes.add(toCspHashSource($(el).html() || ''));
+			}
+		});
+
+		$('style').each((_, el) => {
+			styleHashes.add(toCspHashSource($(el).html() || ''));
+		});
+
+		$('[style]').each((_, el) => {
+			styleAttributeHashes.add(toCspHashSource($(el).attr('style') || ''));
+		});
+
+		//Inline event handlers would need 'unsafe-hashes' in script-src, which defeats the purpose.
+		const eventHandlerCount = $('*').filter((_, el) => Object.keys($(el).attr() ?? {}).some(name => name.startsWith('on'))).length;
+		if (eventHandlerCount > 0) {
+			logger.warn(`CSP: ${route} has ${eventHandlerCount} elements with inline event handlers, these will be blocked.`, { timestamp: true });
+		}
+
+		//A missing directive falls back to default-src, so it is seeded from it to keep allowing what
+		//default-src allows. 'none' is dropped, it cannot be combined with hashes.
+		const addHashes = (directive: 'script-src' | 'style-src', hashes: Set<string>): string[] => {
+			const sources = directives[directive] ?? directives['default-src'] ?? [];
+			return [...sources.filter(source => source !== "'none'"), ...hashes];
+		};
+
+		const routeDirectives: ContentSecurityPolicyDirectives = { ...directives };
+		if (scriptHashes.size > 0) {
+			routeDirectives['script-src'] = addHashes('script-src', scriptHashes);
+		}
+		if (styleHashes.size > 0) {
+			routeDirectives['style-src'] = addHashes('style-src', styleHashes);
+		}
+		if (styleAttributeHashes.size > 0) {
+			routeDirectives['style-src-attr'] = ["'unsafe-hashes'", ...styleAttributeHashes];
+		}
+
+		manifest.routes[route] = serializeContentSecurityPolicy(routeDirectives);
+		logger.info(`CSP: ${route} with ${scriptHashes.size} script, ${styleHashes.size} style and ${styleAttributeHashes.size} style attribute hashes`, {
+			timestamp: true
+		});
+	});
+
+	return manifest;
+};
+
+
+/**
+ * Writes the Content-Security-Policy manifest to the client output directory.
+ *
+ * @param baseDir - Base directory for the project
+ * @param manifest - Content-Security-Policy manifest to write
+ * @param logger - Vite logger for reporting progress
+ */
+const writeContentSecurityPolicyManifest = (baseDir: string, manifest: ContentSecurityPolicyManifest, logger: Logger): void => {
+	const manifestPath = path.join(baseDir, CSP_MANIFEST_FILENAME);
+	fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, JSON_INDENT_SPACES));
+
+	logger.info(`Wrote Content-Security-Policy manifest for ${Object.keys(manifest.routes).length} routes: ${path.relative(process.cwd(), manifestPath)}`, {
+		timestamp: true
+	});
+};
+
+
+/**
+ * Where canonical page URLs end with a slash: "always", "never", or "directory" for
+ * directory index pages only, e.g. "/directory/" but "/another-page".
+ */
+type TrailingSlashPolicy = 'always' | 'never' | 'directory';
+
+
+/**
+ * Canonical URL paths of the HTML pages, served by the Cloudflare worker.
+ * @example
+ * {
+ *   "version": 1,
+ *   "trailingSlash": "directory",
+ *   "routes": {
+ *     "/": "/index.html",
+ *     "/another-page": "/another-page.html",
+ *     "/directory/": "/directory/index.html"
+ *   },
+ *   "errorPages": {
+ *     "404": "/404.html",
+ *     "500": "/500.html"
+ *   }
+ * }
+ */
+interface RouteManifest {
+	/** Format version, see ROUTE_MANIFEST_VERSION. */
+	version: number;
+	/** Trailing slash policy the routes were generated with. */
+	trailingSlash: TrailingSlashPolicy;
+	/** Maps from canonical site-absolute path to the HTML file that is served for it. */
+	routes: { [routePath: string]: string };
+	/** Maps from HTTP status code to the HTML file that is served with it. */
+	errorPages: { [status: string]: string };
+}
+
+
+/**
+ * Error page route keys by HTTP status code, served by the Cloudflare worker instead of a page route.
+ */
+interface ErrorPages {
+	[status: number]: string;
+}
+
+
+/**
+ * Default error pages: src/404.html for missing pages and src/500.html for server errors.
+ */
+const DEFAULT_ERROR_PAGES: ErrorPages = { 404: '404', 500: '500' };
+
+
+/**
+ * File name of the route manifest in the client output directory.
+ */
+const ROUTE_MANIFEST_FILENAME = 'route-manifest.json';
+
+
+/**
+ * Version of the route manifest format.
+ */
+const ROUTE_MANIFEST_VERSION = 1;
+
+
+/**
+ * Maps an HTML route key to its canonical extensionless path. The site index is always "/".
+ *
+ * @param routeKey - HTML route key, e.g. "another-page" or "directory/index"
+ * @param trailingSlash - Trailing slash policy
+ * @returns Site-absolute path, e.g. "/another-page" or "/directory/"
+ */
+const toRoutePath = (routeKey: string, trailingSlash: TrailingSlashPolicy): string => {
+	if (routeKey === 'index') {
+		return '/';
+	}
+
+	if (routeKey.endsWith('/index')) {
+		const directory = `/${routeKey.slice(0, -'/index'.length)}`;
+		return trailingSlash === 'never' ? directory : `${directory}/`;
+	}
+
+	return trailingSlash === 'always' ? `/${routeKey}/` : `/${routeKey}`;
+};
+
+
+/**
+ * Creates the route manifest for the HTML routes found in the output.
+ *
+ * @param baseDir - Base directory for the project
+ * @param htmlRoutes - HTML route keys of the pages, e.g. "index" or "directory/index"
+ * @param trailingSlash - Trailing slash policy
+ * @param errorPages - Error page route keys by HTTP status code
+ * @returns The route manifest
+ */
+const createRouteManifest = (
+	baseDir: string,
+	htmlRoutes: string[],
+	trailingSlash: TrailingSlashPolicy,
+	errorPages: ErrorPages
+): RouteManifest => {
+	const isBuilt = (routeKey: string): boolean => fs.existsSync(path.join(baseDir, `${routeKey}.html`));
+
+	const routes = htmlRoutes
+		.filter(isBuilt)
+		.sort()
+		.map(routeKey => [toRoutePath(routeKey, trailingSlash), `/${routeKey}.html`]);
+
+	const errorRoutes = Object.entries(errorPages)
+		.filter(([, routeKey]) => isBuilt(routeKey))
+		.map(([status, routeKey]) => [status, `/${routeKey}.html`]);
+
+	return {
+		version: ROUTE_MANIFEST_VERSION,
+		trailingSlash,
+		routes: Object.fromEntries(routes),
+		errorPages: Object.fromEntries(errorRoutes)
+	};
+};
+
+
+/**
+ * Writes the route manifest to the client output directory.
+ *
+ * @param baseDir - Base directory for the project
+ * @param manifest - Route manifest to write
+ * @param logger - Vite logger for reporting progress
+ */
+const writeRouteManifest = (baseDir: string, manifest: RouteManifest, logger: Logger): void => {
+	const manifestPath = path.join(baseDir, ROUTE_MANIFEST_FILENAME);
+	fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, JSON_INDENT_SPACES));
+
+	logger.info(`Wrote route manifest with ${Object.keys(manifest.routes).length} routes: ${path.relative(process.cwd(), manifestPath)}`, {
+		timestamp: true
+	});
+};
+
+
+/**
+ * XML namespace of the sitemap protocol.
+ */
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+
+/**
+ * XML namespace of the image sitemap extension.
+ */
+const IMAGE_SITEMAP_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+
+
+/**
+ * A page in the sitemap.
+ */
+interface SitemapEntry {
+	/** Absolute URL of the page. */
+	loc: string;
+	/** Last modification date in W3C Datetime format. */
+	lastmod: string;
+	/** Absolute URLs of the images on the page. */
+	images: string[];
+}
+
+
+/**
+ * Escapes text for use in XML content.
+ *
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+const escapeXml = (value: string): string => {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+};
+
+
+/**
+ * Returns the last modification date of a file, the last commit date from git if the file is
+ * tracked and otherwise the file modification time.
+ *
+ * @param filePath - Path of the file
+ * @returns Date in W3C Datetime format
+ */
+const getLastModified = (filePath: string): string => {
+	try {
+		const commitDate = execFileSync('git', ['log', '-1', '--format=%cI', '--', filePath], {
+			cwd: path.dirname(filePath),
+			encoding: 'utf-8',
+			stdio: ['ignore', 'pipe', 'ignore']
+		}).trim();
+
+		if (commitDate) {
+			return new Date(commitDate).toISOString();
+		}
+	} catch {
+		//Not a git checkout or git is not installed, fall back to the file system.
+	}
+
+	return fs.statSync(filePath).mtime.toISOString();
+};
+
+
+/**
+ * Creates sitemap entries for the HTML routes. Pages with a robots noindex meta tag are left
+ * out, and the og:image and <img> assets of each page are listed as image entries.
+ *
+ * @param baseDir - Base directory for the project
+ * @param srcDir - Source directory of the HTML files
+ * @param htmlRoutes - HTML route keys, e.g. "index" or "directory/index"
+ * @param trailingSlash - Trailing slash policy of the canonical URLs
+ * @param assetConfig - Asset configuration settings
+ * @param logger - Vite logger for reporting progress
+ * @returns Sitemap entries sorted by URL
+ */
+const createSitemapEntries = (
+	baseDir: string,
+	srcDir: string,
+	htmlRoutes: string[],
+	trailingSlash: TrailingSlashPolicy,
+	assetConfig: AssetConfig,
+	logger: Logger
+): SitemapEntry[] => {
+	const entries: SitemapEntry[] = [];
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+
+	for (const routeKey of htmlRoutes) {
+		const htmlFile = path.join(baseDir, `${routeKey}.html`);
+		if (!fs.existsSync(htmlFile)) {
+			continue;
+		}
+
+		const $ = cheerio.load(fs.readFileSync(htmlFile, 'utf-8'));
+		const isNoIndex = $('meta[name="robots"]').toArray()
+			.some(el => ($(el).attr('content') || '').toLowerCase().includes('noindex'));
+		if (isNoIndex) {
+			logger.info(`Sitemap: skipping ${routeKey}, marked noindex`, { timestamp: true });
+			continue;
+		}
+
+		const documentBaseUrl = getDocumentBaseUrl($, `${routeKey}.html`, siteRootUrl);
+		const images = new Set<string>();
+		const addImage = (url: string): void => {
+			try {
+				images.add(new URL(url, documentBaseUrl).toString());
+			} catch {
+				//A malformed URL leaves the image out instead of failing the build.
+				logger.warn(`Sitemap: skipping malformed image URL ${url} in ${routeKey}`, { timestamp: true });
+			}
+		};
+
+		$('meta[property="og:image"]').each((_, el) => {
+			const content = $(el).attr('content');
+			if (content) {
+				addImage(content);
+			}
 		});
+		$('img[src]').each((_, el) => {
+			addImage($(el).attr('src') || '');
+		});
+
+		const sourceFile = path.join(srcDir, `${routeKey}.html`);
+		entries.push({
+			loc: formatSiteUrl(toRoutePath(routeKey, trailingSlash).replace(/^\//, ''), 'absolute', siteRootUrl, siteRootUrl),
+			lastmod: getLastModified(fs.existsSync(sourceFile) ? sourceFile : htmlFile),
+			images: [...images].filter(image => image.startsWith(assetConfig.siteBaseUrl)).sort()
+		});
+	}
+
+	return entries.sort((a, b) => a.loc.localeCompare(b.loc));
+};
+
+
+/**
+ * Writes sitemap.xml and a robots.txt pointing at it to the client output directory.
+ *
+ * @param baseDir - Base directory for the project
+ * @param entries - Sitemap entries
+ * @param assetConfig - Asset configuration settings
+ * @param logger - Vite logger for reporting progress
+ */
+const writeSitemap = (baseDir: string, entries: SitemapEntry[], assetConfig: AssetConfig, logger: Logger): void => {
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+	const urls = entries.map(entry => [
+		'  <url>',
+		`    <loc>${escapeXml(entry.loc)}</loc>`,
+		`    <lastmod>${entry.lastmod}</lastmod>`,
+		...entry.images.map(image => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+		'  </url>'
+	].join('\n'));
+
+	const sitemap = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<urlset xmlns="${SITEMAP_NAMESPACE}" xmlns:image="${IMAGE_SITEMAP_NAMESPACE}">`,
+		...urls,
+		'</urlset>',
+		''
+	].join('\n');
+
+	const robots = [
+		'User-agent: *',
+		'Allow: /',
+		'',
+		`Sitemap: ${formatSiteUrl('sitemap.xml', 'absolute', siteRootUrl, siteRootUrl)}`,
+		''
+	].join('\n');
+
+	fs.writeFileSync(path.join(baseDir, 'sitemap.xml'), sitemap);
+	fs.writeFileSync(path.join(baseDir, 'robots.txt'), robots);
+
+	logger.info(`Wrote sitemap.xml with ${entries.length} pages and robots.txt`, { timestamp: true });
+};
+
+
+/**
+ * Creates the asset manifest from the final asset mappings. Must run after the HTML files
+ * have been rewritten so that the referencing pages can be found by their hashed URLs.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetMappings - Mapping of original asset paths to hashed versions
+ * @param logger - Vite logger for reporting progress
+ * @returns The asset manifest
+ */
+const createAssetManifest = (
+	baseDir: string,
+	assetMappings: AssetMappings,
+	logger: Logger
+): AssetManifest => {
+	const htmlPages = glob.sync(`${baseDir}/**/*.html`).map(htmlFile => ({
+		page: path.relative(baseDir, htmlFile).replace(/\\/g, '/'),
+		content: fs.readFileSync(htmlFile, 'utf-8')
+	}));
+
+	const manifest: AssetManifest = { version: ASSET_MANIFEST_VERSION, assets: {} };
+
+	for (const originalPath of Object.keys(assetMappings).sort()) {
+		const hashedPath = assetMappings[originalPath];
+		const fullPath = path.join(baseDir, hashedPath);
+
+		if (!fs.existsSync(fullPath)) {
+			logger.warn(`Asset manifest: ${hashedPath} not found in output, skipping ${originalPath}`, { timestamp: true });
+			continue;
+		}
+
+		const fileContent = fs.readFileSync(fullPath);
+		manifest.assets[originalPath] = {
+			path: hashedPath,
+			size: fileContent.byteLength,
+			hash: crypto.createHash('sha256').update(fileContent).digest('hex'),
+			type: getMimeType(hashedPath),
+			pages: htmlPages
+				.filter(({ content }) => content.includes(hashedPath))
+				.map(({ page }) => page)
+				.sort()
+		};
+	}
+
+	return manifest;
+};
+
+
+/**
+ * Writes the asset manifest to the client output directory.
+ *
+ * @param baseDir - Base directory for the project
+ * @param manifest - Asset manifest to write
+ * @param logger - Vite logger for reporting progress
+ */
+const writeAssetManifest = (baseDir: string, manifest: AssetManifest, logger: Logger): void => {
+	const manifestPath = path.join(baseDir, ASSET_MANIFEST_FILENAME);
+	fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, JSON_INDENT_SPACES));
+
+	logger.info(`Wrote asset manifest with ${Object.keys(manifest.assets).length} entries: ${path.relative(process.cwd(), manifestPath)}`, {
+		timestamp: true
+	});
+};
+
+
+
+/**
+ * An URL the service worker precaches on install, with a revision that changes with its content.
+ */
+interface PrecacheEntry {
+	/** Site-absolute URL of the resource. */
+	url: string;
+	/** Content hash of the resource. */
+	revision: string;
+}
+
+
+/**
+ * Default file name of the service worker in the client output directory.
+ */
+const DEFAULT_SERVICE_WORKER_FILENAME = 'service-worker.js';
+
+
+/**
+ * Placeholder in the service worker source replaced with the precache manifest.
+ */
+const PRECACHE_MANIFEST_PLACEHOLDER = 'self.__PRECACHE_MANIFEST';
+
+
+/**
+ * Placeholder in the service worker source replaced with the precache cache name.
+ */
+const PRECACHE_CACHE_NAME_PLACEHOLDER = 'self.__PRECACHE_CACHE_NAME';
+
+
+/**
+ * Placeholder in the service worker source replaced with the URL of the offline page.
+ */
+const OFFLINE_PAGE_URL_PLACEHOLDER = 'self.__OFFLINE_PAGE_URL';
+
+
+/**
+ * Placeholder in the service worker source replaced with the caching strategy of pages.
+ */
+const PAGE_STRATEGY_PLACEHOLDER = 'self.__PAGE_STRATEGY';
+
+
+/**
+ * How the service worker answers pages: network-first waits for the network up to a timeout,
+ * stale-while-revalidate answers from the cache right away and tells the page when the
+ * revalidated version differs.
+ */
+type ServiceWorkerPageStrategy = 'network-first' | 'stale-while-revalidate';
+
+
+/**
+ * Caching strategy of pages when the serviceWorkerPageStrategy option is not set.
+ */
+const DEFAULT_SERVICE_WORKER_PAGE_STRATEGY: ServiceWorkerPageStrategy = 'network-first';
+
+
+/**
+ * Route key of the page the service worker serves for pages that cannot be loaded offline.
+ */
+const DEFAULT_OFFLINE_PAGE = 'offline';
+
+
+/**
+ * Creates the service worker precache manifest: every hashed asset plus every HTML route.
+ *
+ * @param baseDir - Base directory for the project
+ * @param assetManifest - Asset manifest of the build
+ * @param routeManifest - Route manifest of the build
+ * @returns Precache entries sorted by URL
+ */
+const createPrecacheManifest = (
+	baseDir: string,
+	assetManifest: AssetManifest,
+	routeManifest: RouteManifest
+): PrecacheEntry[] => {
+	const entries = new Map<string, string>();
+
+	//Hashed assets, several original paths may map to the same output file.
+	for (const { path: hashedPath, hash } of Object.values(assetManifest.assets)) {
+		entries.set(`/${hashedPath}`, hash);
+	}
+
+	//HTML routes by their canonical URL, revisioned by their final content.
+	for (const [routePath, htmlPath] of Object.entries(routeManifest.routes)) {
+		const revision = crypto.createHash('sha256').update(fs.readFileSync(path.join(baseDir, htmlPath))).digest('hex');
+		entries.set(routePath, revision);
+	}
+
+	return [...entries.entries()]
+		.map(([url, revision]) => ({ url, revision }))
+		.sort((a, b) => a.url.localeCompare(b.url));
+};
+
+
+/**
+ * Replaces the precache placeholders in the emitted service worker with the precache manifest
+ * and a cache name derived from it, so a new build gets a new cache only when content changes.
+ *
+ * @param baseDir - Base directory for the project
+ * @param precacheManifest - Entries to precache
+ * @param offlinePageUrl - URL of the offline page, an empty string if there is none
+ * @param pageStrategy - Caching strategy of pages
+ * @param serviceWorkerFileName - Service worker file name in the base directory
+ * @param logger - Vite logger for reporting progress
+ * @returns Whether the service worker was updated
+ */
+const injectServiceWorkerManifest = (
+	baseDir: string,
+	precacheManifest: PrecacheEntry[],
+	offlinePageUrl: string,
+	pageStrategy: ServiceWorkerPageStrategy,
+	serviceWorkerFileName: string,
+	logger: Logger
+): boolean => {
+	const serviceWorkerPath = path.join(baseDir, serviceWorkerFileName);
+	if (!fs.existsSync(serviceWorkerPath)) {
+		logger.warn(`Service worker not found at ${serviceWorkerPath}, skipping precache injection.`, { timestamp: true });
+		return false;
+	}
+
+	const content = fs.readFileSync(serviceWorkerPath, 'utf-8');
+	if (!content.includes(PRECACHE_MANIFEST_PLACEHOLDER)) {
+		logger.warn(`No ${PRECACHE_MANIFEST_PLACEHOLDER} placeholder found in ${serviceWorkerFileName}.`, { timestamp: true });
+		return false;
+	}
+
+	const serializedManifest = JSON.stringify(precacheManifest);
+	const cacheName = `precache-${crypto.createHash('sha256').update(serializedManifest).digest('hex').substring(0, 16)}`;
+
+	const updatedContent = content
+		.replaceAll(PRECACHE_MANIFEST_PLACEHOLDER, serializedManifest)
+		.replaceAll(PRECACHE_CACHE_NAME_PLACEHOLDER, JSON.stringify(cacheName))
+		.replaceAll(OFFLINE_PAGE_URL_PLACEHOLDER, JSON.stringify(offlinePageUrl))
+		.replaceAll(PAGE_STRATEGY_PLACEHOLDER, JSON.stringify(pageStrategy));
+
+	fs.writeFileSync(serviceWorkerPath, updatedContent);
+	logger.info(`Injected ${precacheManifest.length} precache entries into ${serviceWorkerFileName} with cache name ${cacheName}`, {
+		timestamp: true
+	});
+
+	return true;
+};
+
+
+/**
+ * Validators of every file in the client output, used by the Cloudflare worker to answer
+ * If-None-Match and If-Modified-Since requests.
+ * @example
+ * {
+ *   "version": 1,
+ *   "lastModified": "Mon, 19 Oct 2026 10:00:00 GMT",
+ *   "etags": {
+ *     "/index.html": "\"4f0c…\"",
+ *     "/assets/logo-DFOXlSXr.svg": "\"9a1b…\""
+ *   }
+ * }
+ */
+interface ETagManifest {
+	/** Format version, see ETAG_MANIFEST_VERSION. */
+	version: number;
+	/** Build time as an HTTP date, the modification date of every file in the deployment. */
+	lastModified: string;
+	/** Maps from site-absolute path to the quoted strong ETag of the file content. */
+	etags: { [filePath: string]: string };
+}
+
+
+/**
+ * File name of the ETag manifest in the client output directory.
+ */
+const ETAG_MANIFEST_FILENAME = 'etag-manifest.json';
+
+
+/**
+ * Version of the ETag manifest format.
+ */
+const ETAG_MANIFEST_VERSION = 1;
+
+
+/**
+ * Number of hex digits of the sha256 content hash used as ETag.
+ */
+const ETAG_LENGTH = 32;
+
+
+/**
+ * Creates the ETag manifest from the final content of the client output.
+ *
+ * @param baseDir - Base directory for the project
+ * @returns The ETag manifest
+ */
+const createETagManifest = (baseDir: string): ETagManifest => {
+	const files = glob.sync('**/*', { cwd: baseDir, nodir: true, posix: true })
+		.filter(file => file !== ETAG_MANIFEST_FILENAME)
+		.sort();
+
+	const etags = files.map(file => {
+		const hash = crypto.createHash('sha256').update(fs.readFileSync(path.join(baseDir, file))).digest('hex');
+		return [`/${file}`, `"${hash.slice(0, ETAG_LENGTH)}"`];
+	});
+
+	return { version: ETAG_MANIFEST_VERSION, lastModified: new Date().toUTCString(), etags: Object.fromEntries(etags) };
+};
+
+
+/**
+ * Writes the ETag manifest to the client output directory.
+ *
+ * @param baseDir - Base directory for the project
+ * @param manifest - ETag manifest to write
+ * @param logger - Vite logger for reporting progress
+ */
+const writeETagManifest = (baseDir: string, manifest: ETagManifest, logger: Logger): void => {
+	const manifestPath = path.join(baseDir, ETAG_MANIFEST_FILENAME);
+	fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, JSON_INDENT_SPACES));
+
+	logger.info(`Wrote ETag manifest with ${Object.keys(manifest.etags).length} entries: ${path.relative(process.cwd(), manifestPath)}`, {
+		timestamp: true
+	});
+};
+
+
+/**
+ * Kinds of files a page loads, as listed and budgeted in the build report.
+ */
+type BuildReportFileType = 'document' | 'script' | 'style' | 'image' | 'media' | 'font' | 'other';
+
+
+/**
+ * Size of a file as stored and as served compressed, in bytes.
+ */
+interface FileSizes {
+	raw: number;
+	gzip: number;
+	brotli: number;
+}
+
+
+/**
+ * Maximum sizes in bytes by file type, "total" limits the sum of every type.
+ */
+type SizeBudgets = { [type in BuildReportFileType | 'total']?: number };
+
+
+/**
+ * Options of the build report.
+ */
+interface BuildReportOptions {
+	/** Size the budgets are checked against. Defaults to "gzip". */
+	compression?: keyof FileSizes;
+	/** Budgets for the files each page loads, summed by type. */
+	pageBudgets?: SizeBudgets;
+	/** Budgets of single pages by route key, e.g. "index", replacing pageBudgets for the types they set. */
+	routeBudgets?: { [routeKey: string]: SizeBudgets };
+	/** Budgets for every single file by type, e.g. { image: 200000 }, "total" for the types without one. */
+	assetBudgets?: SizeBudgets;
+	/** true fails the build when a budget is exceeded, 'warn' logs the exceeded budgets. Defaults to true. */
+	enforceBudgets?: true | 'warn';
+}
 
-		const content = fs.readFileSync(htmlFile, 'utf-8');
-		const $ = cheerio.load(content);
-		let fileChanged = false;
-		let changesCount = 0;
 
-		//Update manifest link.
-		$('link[rel="manifest"]').each((_, el) => {
-			const $el = $(el);
-			const href = $el.attr('href');
-			if (href && href.endsWith('manifest.json')) {
-				//Find the hashed manifest file...
-				const manifestFiles = glob.sync(`${baseDir}/**/manifest-*.json`);
-				if (manifestFiles.length > 0) {
-					const relativeManifestPath = path.relative(baseDir, manifestFiles[0]).replace(/\\/g, '/');
-					$el.attr('href', `/${relativeManifestPath}`);
-					fileChanged = true;
-					changesCount++;
-				}
-			}
-		});
+/**
+ * A file in the build report.
+ */
+interface BuildReportFile {
+	type: BuildReportFileType;
+	sizes: FileSizes;
+}
 
-		//Update elements with src, href, or content attributes.
-		$('[src],[href],[content]').each((_, el) => {
-			const $el = $(el);
-			const nodeName = el.tagName.toLowerCase();
-
-			['src', 'href', 'content', 'srcset'].forEach(attr => {
-				const value = $el.attr(attr);
-				if (value) {
-					//Skip certain links that shouldn't be processed.
-					if (attr === 'href' && nodeName === 'a' && !value.match(/\.(html|css|js|json)$/i)) {
-						return;
-					}
 
-					//Handle srcset attribute specially.
-					if (attr === 'srcset') {
-						const srcsets = value.split(',').map(srcset => {
-							const [url, descriptor] = srcset.trim().split(/\s+/);
-							return `${updateUrl(url, assetConfig, assetMappings)}${descriptor ? ' ' + descriptor : ''}`;
-						});
+/**
+ * A file a page loads, with the file that references it.
+ */
+interface BuildReportDependency {
+	/** Path relative to the client output directory. */
+	path: string;
+	/** Page or stylesheet that references the file, relative to the client output directory. */
+	from: string;
+}
 
-						const newSrcset = srcsets.join(', ');
-						if (newSrcset !== value) {
-							$el.attr(attr, newSrcset);
-							fileChanged = true;
-							changesCount++;
-						}
-						return;
-					}
 
-					const updatedValue = updateUrl(value, assetConfig, assetMappings);
-					if (updatedValue !== value) {
-						$el.attr(attr, updatedValue);
-						fileChanged = true;
-						changesCount++;
-					}
-				}
-			});
-		});
+/**
+ * The files a page loads and their sizes by type.
+ */
+interface BuildReportPage {
+	/** HTML route key, e.g. "index" or "directory/index". */
+	routeKey: string;
+	/** HTML file relative to the client output directory. */
+	file: string;
+	/** The page itself and the files it loads, in the order they were found. */
+	dependencies: BuildReportDependency[];
+	/** Sums of the dependency sizes by type, "total" of every type. */
+	totals: { [type in BuildReportFileType | 'total']: FileSizes };
+}
 
-		//Update JSON-LD scripts.
-		let jsonChangesCount = 0;
-		$('script[type="application/ld+json"]').each((_, el) => {
-			const script = $(el);
-			let scriptContent = script.html() || '';
-			try {
-				const jsonContent = JSON.parse(scriptContent);
-				const initialJson = JSON.stringify(jsonContent);
 
-				//Process all fields recursively to update image URLs.
-				const processJsonValues = (obj: unknown) => {
-					if (!obj || typeof obj !== 'object') {
-						return;
-					}
+/**
+ * A page total or a file exceeding its budget.
+ */
+interface BudgetViolation {
+	/** Route key for page budgets, file path for asset budgets. */
+	target: string;
+	scope: 'page' | 'asset';
+	type: BuildReportFileType | 'total';
+	compression: keyof FileSizes;
+	size: number;
+	budget: number;
+}
 
-					const typedObj = obj as { [key: string]: unknown };
-
-					Object.entries(typedObj).forEach(([key, value]) => {
-						//Check for direct image URLs in common image fields...
-						if (typeof value === 'string' && (
-							key === 'image' ||
-							key === 'logo' ||
-							key === 'thumbnail' ||
-							key === 'url' ||  //Also check for 'url' fields which often contain image paths.
-							key.includes('Image') ||
-							key.includes('image')
-						)) {
-							typedObj[key] = updateUrl(value, assetConfig, assetMappings);
-							jsonChangesCount++;
-						}
-
-						//Handle nested objects that might contain image URLs...
-						else if (value && typeof value === 'object') {
-							const isImageObject = (v: object): v is { url: string } => {
-								return 'url' in v && typeof (v as { url: unknown }).url === 'string';
-							};
-
-							//Special case for image-like objects with url property...
-							if (
-								(key === 'image' || key === 'logo' || key.includes('Image') || key.includes('image')) && !Array.isArray(value) && isImageObject(value)
-							) {
-								//Direct update for known image objects with url property...
-								value.url = updateUrl(value.url, assetConfig, assetMappings);
-								jsonChangesCount++;
-							}
-
-							//Continue recursion for nested objects and arrays...
-							if (Array.isArray(value)) {
-								value.forEach((item, index) => {
-									if (typeof item === 'object' && item !== null) {
-										processJsonValues(item);
-									} else if (typeof item === 'string') {
-										//Try to detect URLs in arrays...
-										if (item.includes('http') || item.startsWith('/')) {
-											const updatedUrl = updateUrl(item, assetConfig, assetMappings);
-											if (updatedUrl !== item) {
-												(value as string[])[index] = updatedUrl;
-												jsonChangesCount++;
-											}
-										}
-									}
-								});
-							} else {
-								//Regular object recursion...
-								processJsonValues(value);
-							}
-						}
-					});
-				};
-
-				processJsonValues(jsonContent);
-
-				const updatedJson = JSON.stringify(jsonContent, null, JSON_INDENT_SPACES);
-				if (initialJson !== updatedJson) {
-					script.html(updatedJson);
-					fileChanged = true;
-					jsonChangesCount++;
-				}
-			} catch {
-				//If not valid JSON, treat as string.
-				const updatedContent = updateUrl(scriptContent, assetConfig, assetMappings);
-				if (updatedContent !== scriptContent) {
-					script.html(updatedContent);
-					fileChanged = true;
-					jsonChangesCount++;
-				}
+
+/**
+ * Structured summary of the build: the files every page loads and the exceeded budgets.
+ * @example
+ * {
+ *   "version": 1,
+ *   "compression": "gzip",
+ *   "files": {
+ *     "assets/logo-DFOXlSXr.svg": { "type": "image", "sizes": { "raw": 1497, "gzip": 712, "brotli": 598 } }
+ *   },
+ *   "pages": [{
+ *     "routeKey": "index",
+ *     "file": "index.html",
+ *     "dependencies": [{ "path": "index.html", "from": "" }, { "path": "assets/logo-DFOXlSXr.svg", "from": "index.html" }],
+ *     "totals": { "image": { "raw": 1497, "gzip": 712, "brotli": 598 }, … }
+ *   }],
+ *   "violations": []
+ * }
+ */
+interface BuildReport {
+	/** Format version, see BUILD_REPORT_VERSION. */
+	version: number;
+	/** Size the budgets were checked against. */
+	compression: keyof FileSizes;
+	/** Every file a page loads, by path relative to the client output directory. */
+	files: { [filePath: string]: BuildReportFile };
+	/** Pages sorted by route key. */
+	pages: BuildReportPage[];
+	violations: BudgetViolation[];
+}
+
+
+/**
+ * File names of the build report in the output directory, next to the client output so that it
+ * is not deployed.
+ */
+const BUILD_REPORT_JSON_FILENAME = 'build-report.json';
+const BUILD_REPORT_HTML_FILENAME = 'build-report.html';
+
+
+/**
+ * Version of the build report format.
+ */
+const BUILD_REPORT_VERSION = 1;
+
+
+/**
+ * File types in the order they are reported.
+ */
+const BUILD_REPORT_FILE_TYPES: BuildReportFileType[] = ['document', 'script', 'style', 'image', 'media', 'font', 'other'];
+
+
+/**
+ * References the page does not load itself: links to other pages, and metadata for crawlers
+ * and link previews.
+ */
+const NON_LOADING_SELECTORS = new Set(['a[href]', 'meta[content]', 'script[type="application/ld+json"]']);
+
+
+/**
+ * Image candidates of which the browser loads one per <img> or <picture>, including the image
+ * preloads for them. They are counted once per image, see collectPageDependencies.
+ */
+const IMAGE_CANDIDATE_SELECTORS = new Set(['img[src]', 'img[srcset]', 'source[srcset]', 'link[imagesrcset]']);
+
+
+/**
+ * MIME types servers compress. Other files, e.g. JPEG, video and WOFF2, are compressed formats
+ * already and served as they are, their gzip and brotli sizes are their raw size.
+ */
+const COMPRESSIBLE_MIME_TYPE_PATTERN = /^(text\/|image\/svg\+xml$|image\/x-icon$|application\/(json|manifest\+json|vnd\.ms-fontobject)$|font\/(ttf|otf)$)/;
+
+
+/**
+ * Returns the report type of a file from its MIME type.
+ *
+ * @param filePath - Path of the file
+ * @returns The file type
+ */
+const getBuildReportFileType = (filePath: string): BuildReportFileType => {
+	const mimeType = getMimeType(filePath);
+
+	if (mimeType === 'text/html') {
+		return 'document';
+	}
+	if (mimeType === 'text/javascript') {
+		return 'script';
+	}
+	if (mimeType === 'text/css') {
+		return 'style';
+	}
+	if (mimeType.startsWith('image/')) {
+		return 'image';
+	}
+	if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) {
+		return 'media';
+	}
+
+	return mimeType.startsWith('font/') || mimeType === 'application/vnd.ms-fontobject' ? 'font' : 'other';
+};
+
+
+/**
+ * Measures a file as stored and compressed with the highest gzip and brotli levels.
+ *
+ * @param filePath - Path of the file
+ * @returns The sizes in bytes
+ */
+const getFileSizes = (filePath: string): FileSizes => {
+	const content = fs.readFileSync(filePath);
+	if (!COMPRESSIBLE_MIME_TYPE_PATTERN.test(getMimeType(filePath))) {
+		return { raw: content.byteLength, gzip: content.byteLength, brotli: content.byteLength };
+	}
+
+	return {
+		raw: content.byteLength,
+		gzip: zlib.gzipSync(content, { level: zlib.constants.Z_BEST_COMPRESSION }).byteLength,
+		brotli: zlib.brotliCompressSync(content, {
+			params: {
+				[zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+				[zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.byteLength
 			}
-		});
+		}).byteLength
+	};
+};
 
-		changesCount += jsonChangesCount;
 
-		//Only write the file if changes were made.
-		if (fileChanged) {
-			fs.writeFileSync(htmlFile, $.html());
-			updatedFiles.push(relativePath);
-			logger.info(`Updated ${relativePath} with ${changesCount} changes`, {
-				timestamp: true
-			});
-		} else {
-			logger.info(`No changes needed for ${relativePath}`, {
-				timestamp: true
-			});
+/**
+ * Finds the files a page loads: the references of the extractors, one candidate of
+ * every image, url() and @import references of its inline styles and of the stylesheets it
+ * loads, recursively. Scripts are found by their script and modulepreload elements, which Vite
+ * adds for every static import.
+ *
+ * @param baseDir - Base directory for the project
+ * @param page - HTML file relative to the base directory
+ * @param siteRootUrl - URL the site root is served from
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @returns The page itself and the files it loads that exist in the output
+ */
+const collectPageDependencies = (
+	baseDir: string,
+	page: string,
+	siteRootUrl: URL,
+	referenceExtractors: ReferenceExtractorRegistry
+): BuildReportDependency[] => {
+	const $ = cheerio.load(fs.readFileSync(path.join(baseDir, page), 'utf-8'));
+	const documentBaseUrl = getDocumentBaseUrl($, page, siteRootUrl);
+	const dependencies: BuildReportDependency[] = [{ path: page, from: '' }];
+	const found = new Set([page]);
+
+	const addDependency = (url: string, baseUrl: URL, from: string): string => {
+		const filePath = resolveSitePath(url, baseUrl, siteRootUrl);
+		if (filePath === null || found.has(filePath) || !fs.statSync(path.join(baseDir, filePath), { throwIfNoEntry: false })?.isFile()) {
+			return url;
+		}
+
+		found.add(filePath);
+		dependencies.push({ path: filePath, from });
+
+		if (getBuildReportFileType(filePath) === 'style') {
+			const stylesheetUrl = new URL(filePath, siteRootUrl);
+			rewriteCssReferences(fs.readFileSync(path.join(baseDir, filePath), 'utf-8'), cssUrl => addDependency(cssUrl, stylesheetUrl, filePath));
+		}
+
+		return url;
+	};
+
+	visitReferenceValues($, referenceExtractors, (value, extractor) => {
+		if (!NON_LOADING_SELECTORS.has(extractor.selector) && !IMAGE_CANDIDATE_SELECTORS.has(extractor.selector)) {
+			mapReferenceUrls(value, extractor.type ?? 'url', url => addDependency(url, documentBaseUrl, page));
 		}
+
+		return value;
 	});
 
-	if (updatedFileCount > 0) {
-		logger.info(`Updated ${updatedFileCount} of ${htmlFiles.length} HTML files with hashed asset URLs:`, {
-			timestamp: true
+	//One candidate per image: the largest of the first srcset the browser considers, the first
+	//<source> of a <picture> or the srcset of the <img>, or else its src.
+	$('img').each((_, el) => {
+		const $img = $(el);
+		const srcset = $img.parent('picture').children('source[srcset]').first().attr('srcset') || $img.attr('srcset') || '';
+		const url = getLargestSrcsetCandidate(srcset) || $img.attr('src');
+		if (url) {
+			addDependency(url, documentBaseUrl, page);
+		}
+	});
+
+	$('style').each((_, el) => {
+		rewriteCssReferences($(el).html() || '', url => addDependency(url, documentBaseUrl, page));
+	});
+	$('[style]').each((_, el) => {
+		rewriteCssReferences($(el).attr('style') || '', url => addDependency(url, documentBaseUrl, page));
+	});
+
+	return dependencies;
+};
+
+
+/**
+ * Adds sizes to a running total.
+ */
+const addFileSizes = (total: FileSizes, sizes: FileSizes): FileSizes => ({
+	raw: total.raw + sizes.raw,
+	gzip: total.gzip + sizes.gzip,
+	brotli: total.brotli + sizes.brotli
+});
+
+
+/**
+ * Checks the pages and files of the report against the budgets.
+ *
+ * @param report - Build report without violations
+ * @param options - Budgets and the size they limit
+ * @returns The exceeded budgets
+ */
+const checkBudgets = (report: BuildReport, options: BuildReportOptions): BudgetViolation[] => {
+	const { compression } = report;
+	const violations: BudgetViolation[] = [];
+
+	report.pages.forEach(page => {
+		const budgets = { ...options.pageBudgets, ...options.routeBudgets?.[page.routeKey] };
+
+		Object.entries(budgets).forEach(([type, budget]) => {
+			const size = page.totals[type as BuildReportFileType | 'total'][compression];
+			if (typeof budget === 'number' && size > budget) {
+				violations.push({ target: page.routeKey, scope: 'page', type: type as BuildReportFileType | 'total', compression, size, budget });
+			}
 		});
-		updatedFiles.forEach(file => {
-			logger.info(`  - ${file}`, { timestamp: true });
+	});
+
+	Object.entries(report.files).forEach(([filePath, file]) => {
+		const budget = options.assetBudgets?.[file.type] ?? options.assetBudgets?.total;
+		if (typeof budget === 'number' && file.sizes[compression] > budget) {
+			violations.push({ target: filePath, scope: 'asset', type: file.type, compression, size: file.sizes[compression], budget });
+		}
+	});
+
+	return violations;
+};
+
+
+/**
+ * Creates the build report for the HTML routes.
+ *
+ * @param baseDir - Base directory for the project
+ * @param htmlRoutes - HTML route keys, e.g. "index" or "directory/index"
+ * @param assetConfig - Asset configuration settings
+ * @param referenceExtractors - Extractors of the plugin instance
+ * @param options - Budgets and the size they limit
+ * @returns The build report with the exceeded budgets
+ */
+const createBuildReport = (
+	baseDir: string,
+	htmlRoutes: string[],
+	assetConfig: AssetConfig,
+	referenceExtractors: ReferenceExtractorRegistry,
+	options: BuildReportOptions
+): BuildReport => {
+	const siteRootUrl = getSiteRootUrl(assetConfig.siteBaseUrl);
+	const report: BuildReport = {
+		version: BUILD_REPORT_VERSION,
+		compression: options.compression ?? 'gzip',
+		files: {},
+		pages: [],
+		violations: []
+	};
+
+	[...htmlRoutes].sort().forEach(routeKey => {
+		const file = `${routeKey}.html`;
+		if (!fs.existsSync(path.join(baseDir, file))) {
+			return;
+		}
+
+		const dependencies = collectPageDependencies(baseDir, file, siteRootUrl, referenceExtractors);
+		const emptySizes: FileSizes = { raw: 0, gzip: 0, brotli: 0 };
+		const totals = Object.fromEntries([...BUILD_REPORT_FILE_TYPES, 'total'].map(type => [type, emptySizes])) as BuildReportPage['totals'];
+
+		dependencies.forEach(dependency => {
+			report.files[dependency.path] ??= {
+				type: getBuildReportFileType(dependency.path),
+				sizes: getFileSizes(path.join(baseDir, dependency.path))
+			};
+
+			const { type, sizes } = report.files[dependency.path];
+			totals[type] = addFileSizes(totals[type], sizes);
+			totals.total = addFileSizes(totals.total, sizes);
 		});
+
+		report.pages.push({ routeKey, file, dependencies, totals });
+	});
+
+	report.violations = checkBudgets(report, options);
+
+	return report;
+};
+
+
+/**
+ * Formats a size in bytes the way Vite reports sizes, e.g. "12.34 kB".
+ */
+const formatBytes = (bytes: number): string => {
+	return bytes < 1000 ? `${bytes} B` : `${(bytes / 1000).toFixed(2)} kB`;
+};
+
+
+/**
+ * Describes an exceeded budget for the log and the HTML report.
+ */
+const describeBudgetViolation = (violation: BudgetViolation): string => {
+	const subject = violation.scope === 'page'
+		? `Page ${violation.target} loads ${formatBytes(violation.size)} of ${violation.type === 'total' ? 'files' : violation.type}`
+		: `${violation.type === 'other' ? 'File' : violation.type[0].toUpperCase() + violation.type.slice(1)} ${violation.target} is ${formatBytes(violation.size)}`;
+
+	return `${subject} (${violation.compression}), over the budget of ${formatBytes(violation.budget)}`;
+};
+
+
+/**
+ * Renders the build report as a standalone HTML document without external resources.
+ *
+ * @param report - Build report to render
+ * @returns The HTML document
+ */
+const renderBuildReportHtml = (report: BuildReport): string => {
+	const { compression } = report;
+	const columns = [...BUILD_REPORT_FILE_TYPES, 'total'] as const;
+
+	const summaryRows = report.pages.map(page => `
+			<tr>
+				<th scope="row"><a href="#${escapeXml(page.routeKey)}">${escapeXml(page.routeKey)}</a></th>
+				${columns.map(type => `<td>${formatBytes(page.totals[type][compression])}</td>`).join('')}
+			</tr>`).join('');
+
+	const pageSections = report.pages.map(page => `
+		<section id="${escapeXml(page.routeKey)}">
+			<h2>${escapeXml(page.file)}</h2>
+			<table>
+				<thead><tr><th>File</th><th>Type</th><th>Referenced by</th><th>Raw</th><th>gzip</th><th>brotli</th></tr></thead>
+				<tbody>${page.dependencies.map(dependency => {
+					const { type, sizes } = report.files[dependency.path];
+					return `
+					<tr>
+						<td>${escapeXml(dependency.path)}</td>
+						<td>${type}</td>
+						<td>${escapeXml(dependency.from)}</td>
+						<td>${formatBytes(sizes.raw)}</td>
+						<td>${formatBytes(sizes.gzip)}</td>
+						<td>${formatBytes(sizes.brotli)}</td>
+					</tr>`;
+				}).join('')}
+				</tbody>
+			</table>
+		</section>`).join('');
+
+	const violations = report.violations.length > 0
+		? `<ul class="violations">${report.violations.map(violation => `<li>${escapeXml(describeBudgetViolation(violation))}</li>`).join('')}</ul>`
+		: '<p>No budget exceeded.</p>';
+
+	return `<!DOCTYPE html>
+<html lang="en">
+	<head>
+		<meta charset="utf-8">
+		<meta name="viewport" content="width=device-width, initial-scale=1">
+		<title>Build report</title>
+		<style>
+			body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #222; }
+			table { border-collapse: collapse; margin-bottom: 2rem; }
+			th, td { border-bottom: 1px solid #ddd; padding: 0.25rem 0.75rem; text-align: left; }
+			td:nth-last-child(-n+3), thead th:nth-last-child(-n+3) { text-align: right; }
+			.violations { color: #b00020; }
+		</style>
+	</head>
+	<body>
+		<h1>Build report</h1>
+		<h2>Budgets</h2>
+		${violations}
+		<h2>Pages (${compression})</h2>
+		<table>
+			<thead><tr><th>Page</th>${columns.map(type => `<th>${type}</th>`).join('')}</tr></thead>
+			<tbody>${summaryRows}
+			</tbody>
+		</table>${pageSections}
+	</body>
+</html>
+`;
+};
+
+
+/**
+ * Writes the build report as JSON and HTML.
+ *
+ * @param outputDir - Output directory, the parent of the client output directory
+ * @param report - Build report to write
+ * @param logger - Vite logger for reporting progress
+ */
+const writeBuildReport = (outputDir: string, report: BuildReport, logger: Logger): void => {
+	const jsonPath = path.join(outputDir, BUILD_REPORT_JSON_FILENAME);
+	const htmlPath = path.join(outputDir, BUILD_REPORT_HTML_FILENAME);
+	fs.writeFileSync(jsonPath, JSON.stringify(report, null, JSON_INDENT_SPACES));
+	fs.writeFileSync(htmlPath, renderBuildReportHtml(report));
+
+	logger.info(`Wrote build report for ${report.pages.length} pages: ${path.relative(process.cwd(), htmlPath)}`, {
+		timestamp: true
+	});
+};
+
+
+/**
+ * Reports the exceeded budgets. Fails the build unless the budgets are only warned about.
+ *
+ * @param violations - Exceeded budgets
+ * @param mode - true to fail the build, 'warn' to log the violations
+ * @param logger - Vite logger for the warn mode
+ */
+const reportBudgetViolations = (violations: BudgetViolation[], mode: true | 'warn', logger: Logger): void => {
+	if (violations.length === 0) {
+		return;
+	}
+
+	const report = [
+		`${violations.length} size budget${violations.length === 1 ? '' : 's'} exceeded:`,
+		...violations.map(violation => `  - ${describeBudgetViolation(violation)}`),
+		`See ${BUILD_REPORT_HTML_FILENAME} for the files of each page.`
+	].join('\n');
+
+	if (mode === 'warn') {
+		logger.warn(report, { timestamp: true });
+		return;
 	}
+
+	throw new Error(`PostBuildAssetsProcessorPlugin: ${report}`);
 };
 
 
+/**
+ * Options for PostBuildAssetsProcessorPlugin.
+ */
+interface PostBuildAssetsProcessorOptions {
+	/** Asset configuration settings. */
+	assetConfig: AssetConfig;
+	/** Project root, defaults to the current working directory. */
+	projectRoot: string;
+	/**
+	 * HTML route keys relative to the source directory without the extension,
+	 * e.g. "index" or "directory/index". Defaults to the HTML files found in the output.
+	 */
+	htmlRoutes?: string[];
+	/** Service worker file name in the client output directory. Defaults to "service-worker.js". */
+	serviceWorkerFileName?: string;
+	/** How the service worker answers pages, injected into it. Defaults to "network-first". */
+	serviceWorkerPageStrategy?: ServiceWorkerPageStrategy;
+	/**
+	 * Adds sha384 integrity and crossorigin attributes to scripts, stylesheets and
+	 * modulepreload links. Defaults to false.
+	 */
+	subresourceIntegrity?: boolean;
+	/**
+	 * Base Content-Security-Policy directives for production. When set, the hashes of every inline
+	 * script and style are added per page and written to content-security-policy.json.
+	 */
+	contentSecurityPolicy?: ContentSecurityPolicyDirectives;
+	/**
+	 * Generates resized AVIF/WebP variants for raster images in <img> and <picture> and rewrites
+	 * them into <picture>/srcset markup with intrinsic dimensions. Disabled when not set.
+	 */
+	responsiveImages?: ResponsiveImageOptions;
+	/** Emits sitemap.xml for the HTML routes and a robots.txt pointing at it. Defaults to false. */
+	sitemap?: boolean;
+	/** Trailing slash policy of the canonical page URLs. Defaults to "directory". */
+	trailingSlash?: TrailingSlashPolicy;
+	/**
+	 * Error page route keys by HTTP status code. Error pages are built like any other page, but are
+	 * not routed, precached or listed in the sitemap. Defaults to { 404: '404', 500: '500' }.
+	 */
+	errorPages?: ErrorPages;
+	/**
+	 * Route key of the page the service worker serves when a page cannot be loaded offline.
+	 * The page is precached like every other route. Defaults to "offline".
+	 */
+	offlinePage?: string;
+	/**
+	 * Additional reference extractors of this plugin instance, used to discover assets and to
+	 * rewrite their references. An extractor with the selector and attribute of a default one
+	 * replaces it.
+	 */
+	referenceExtractors?: ReferenceExtractor[];
+	/**
+	 * Checks the asset references of the pages and the web app manifest: references that match no
+	 * source file, basenames that match several files, site URLs to files that do not exist and
+	 * assets that could not be copied. true fails the build with a report of every problem, 'warn'
+	 * logs the report. Defaults to false, which takes the first match silently.
+	 */
+	strict?: boolean | 'warn';
+	/**
+	 * Asset paths strict mode does not report, relative to the source directory, e.g.
+	 * "images/generated.png", or regular expressions tested against the path.
+	 */
+	strictAllowlist?: (string | RegExp)[];
+	/**
+	 * Writes build-report.json and build-report.html to the output directory with the files each
+	 * page loads and their raw, gzip and brotli sizes, and checks the size budgets. Defaults to false.
+	 */
+	buildReport?: boolean | BuildReportOptions;
+}
+
 
 /**
  * Creates a Vite plugin that processes assets after the build is complete.
  *
  * @returns Vite plugin
  */
-const PostBuildAssetsProcessorPlugin  = (options: {
-  assetConfig: AssetConfig,
-  projectRoot: string
-}): Plugin => {
+const PostBuildAssetsProcessorPlugin  = (options: PostBuildAssetsProcessorOptions): Plugin => {
 
 	if (!options || !options.assetConfig) {
     throw new Error('PostBuildAssetsProcessorPlugin: assetConfig is required');
@@ -811,15 +3422,26 @@ const PostBuildAssetsProcessorPlugin  = (options: {
 	const assetConfig = options.assetConfig;
 	const root = options?.projectRoot || process.cwd();
 
+	const referenceExtractors = createReferenceExtractorRegistry(options.referenceExtractors);
+
 	let resolvedConfig: ResolvedConfig = null as unknown as ResolvedConfig;
 
+	//Exact source to output mappings of the client bundle, captured before the bundle is written.
+	let bundleMappings: AssetMappings = {};
+
 	return {
 		name: 'post-build-assets-processor',
 		apply: 'build',
 		configResolved(config: ResolvedConfig) {
 			resolvedConfig = config;
     },
-		closeBundle() {
+		generateBundle(_outputOptions, bundle) {
+			//The Cloudflare worker is bundled in its own environment.
+			if (this.environment.config.consumer === 'client') {
+				bundleMappings = createBundleMappings(bundle, resolve(root, assetConfig.srcDir));
+			}
+		},
+		async closeBundle() {
       const logger = resolvedConfig.logger;
       const distDir = resolve(root, assetConfig.outputDir);
       const clientDir = resolve(distDir, 'client');
@@ -835,6 +3457,11 @@ const PostBuildAssetsProcessorPlugin  = (options: {
 				return;
 			}
 
+			//The worker environment is built first, the client output is processed once it is built too.
+			if (this.environment.config.consumer !== 'client') {
+				return;
+			}
+
 			if (!fs.existsSync(clientDir)) {
 				resolvedConfig.logger.error(`Client directory not found at ${clientDir}.`, {
 					timestamp: true
@@ -849,15 +3476,104 @@ const PostBuildAssetsProcessorPlugin  = (options: {
 
 			const assetsDir = resolve(clientDir, assetConfig.assetsSubdir);
 
-			//1. Create initial mappings from output files.
-			const assetMappings = createAssetMappings(clientDir, assetsDir, logger);
+			//1. Create initial mappings from the bundle metadata and the output files.
+			const assetMappings = createAssetMappings(clientDir, assetsDir, bundleMappings, logger);
 
 			//2. Create the Handle any missing assets and update mappings
-			const finalMappings = processMissingAssets(clientDir, assetsDir, assetConfig, assetMappings, logger);
+			const referenceCheck: ReferenceCheck = {
+				publicDir: resolvedConfig.publicDir,
+				allowlist: options.strictAllowlist ?? [],
+				problems: []
+			};
+			const finalMappings = processMissingAssets(clientDir, assetsDir, assetConfig, assetMappings, referenceExtractors, referenceCheck, logger);
+			if (options.strict) {
+				reportReferenceProblems(referenceCheck.problems, options.strict, logger);
+			}
+
+			//3. Rewrite url(), image-set() and @import references in CSS, copying what is still missing.
+			const cssMappings = updateCssReferences(
+				clientDir,
+				assetsDir,
+				resolve(root, assetConfig.srcDir),
+				assetConfig,
+				finalMappings,
+				logger
+			);
+
+			//4. Update HTML files with the final mappings
+			logger.info(`Found ${Object.keys(cssMappings).length} total asset mappings:`, { timestamp: true });
+			updateHtmlFiles(clientDir, assetConfig, cssMappings, referenceExtractors, logger);
+
+			//5. Create responsive image variants for the hashed raster images.
+			const imageMappings = options.responsiveImages
+				? await updateResponsiveImages(clientDir, root, assetConfig, cssMappings, options.responsiveImages, logger)
+				: cssMappings;
+
+			//6. Add integrity attributes once all referenced files are final.
+			if (options.subresourceIntegrity) {
+				addSubresourceIntegrity(clientDir, assetConfig, logger);
+			}
+
+			//7. Hash inline scripts and styles of the final HTML into a per-route policy.
+			if (options.contentSecurityPolicy) {
+				writeContentSecurityPolicyManifest(
+					clientDir,
+					createContentSecurityPolicyManifest(clientDir, options.contentSecurityPolicy, logger),
+					logger
+				);
+			}
 
-			//3. Update HTML files with the final mappings
-			logger.info(`Found ${Object.keys(finalMappings).length} total asset mappings:`, { timestamp: true });
-			updateHtmlFiles(clientDir, assetConfig, finalMappings, logger);
+			const errorPages = options.errorPages ?? DEFAULT_ERROR_PAGES;
+			const errorRouteKeys = new Set(Object.values(errorPages));
+			const allHtmlRoutes = options.htmlRoutes ?? glob.sync('**/*.html', { cwd: clientDir })
+				.map(htmlFile => htmlFile.replace(/\\/g, '/').replace(/\.html$/, ''));
+			const htmlRoutes = allHtmlRoutes.filter(routeKey => !errorRouteKeys.has(routeKey));
+
+			const trailingSlash = options.trailingSlash ?? 'directory';
+
+			//8. Emit the canonical page URLs and error pages for the Cloudflare worker.
+			const routeManifest = createRouteManifest(clientDir, htmlRoutes, trailingSlash, errorPages);
+			writeRouteManifest(clientDir, routeManifest, logger);
+
+			//9. Emit sitemap.xml and robots.txt for the HTML routes.
+			if (options.sitemap) {
+				writeSitemap(
+					clientDir,
+					createSitemapEntries(clientDir, resolve(root, assetConfig.srcDir), htmlRoutes, trailingSlash, assetConfig, logger),
+					assetConfig,
+					logger
+				);
+			}
+
+			//10. Emit the asset manifest for the workers and deploy scripts.
+			const assetManifest = createAssetManifest(clientDir, imageMappings, logger);
+			writeAssetManifest(clientDir, assetManifest, logger);
+
+			//11. Inject the precache manifest into the service worker, this needs the final HTML.
+			const offlinePageUrl = toRoutePath(options.offlinePage ?? DEFAULT_OFFLINE_PAGE, trailingSlash);
+			if (!routeManifest.routes[offlinePageUrl]) {
+				logger.warn(`Offline page ${offlinePageUrl} is not a built route, the service worker has no offline fallback.`, { timestamp: true });
+			}
+
+			injectServiceWorkerManifest(
+				clientDir,
+				createPrecacheManifest(clientDir, assetManifest, routeManifest),
+				routeManifest.routes[offlinePageUrl] ? offlinePageUrl : '',
+				options.serviceWorkerPageStrategy ?? DEFAULT_SERVICE_WORKER_PAGE_STRATEGY,
+				options.serviceWorkerFileName ?? DEFAULT_SERVICE_WORKER_FILENAME,
+				logger
+			);
+
+			//12. Emit the ETag manifest last, once every file in the output is final.
+			writeETagManifest(clientDir, createETagManifest(clientDir), logger);
+
+			//13. Report the files and sizes of every page, error pages included, and check the budgets.
+			if (options.buildReport) {
+				const buildReportOptions = options.buildReport === true ? {} : options.buildReport;
+				const buildReport = createBuildReport(clientDir, allHtmlRoutes, assetConfig, referenceExtractors, buildReportOptions);
+				writeBuildReport(distDir, buildReport, logger);
+				reportBudgetViolations(buildReport.violations, buildReportOptions.enforceBudgets ?? true, logger);
+			}
 
 			logger.info(`Post-build asset processing complete.`, { timestamp: true });
 		}
@@ -865,5 +3581,62 @@ const PostBuildAssetsProcessorPlugin  = (options: {
 };
 
 
-export type { AssetConfig };
-export { PostBuildAssetsProcessorPlugin };
+export type {
+	AssetConfig,
+	AssetManifest,
+	AssetManifestEntry,
+	AssetReference,
+	BudgetViolation,
+	BuildReport,
+	BuildReportDependency,
+	BuildReportFile,
+	BuildReportFileType,
+	BuildReportOptions,
+	BuildReportPage,
+	ContentSecurityPolicyDirectives,
+	ContentSecurityPolicyManifest,
+	ETagManifest,
+	ErrorPages,
+	FileSizes,
+	PostBuildAssetsProcessorOptions,
+	PrecacheEntry,
+	ReferenceExtractor,
+	ReferenceExtractorRegistry,
+	ReferenceProblem,
+	ReferenceProblemKind,
+	ReferenceValueType,
+	ResponsiveImageFormat,
+	ResponsiveImageOptions,
+	RouteManifest,
+	ServiceWorkerPageStrategy,
+	SizeBudgets,
+	TrailingSlashPolicy
+};
+export {
+	ASSET_MANIFEST_FILENAME,
+	ASSET_MANIFEST_VERSION,
+	CSP_MANIFEST_FILENAME,
+	CSP_MANIFEST_VERSION,
+	ETAG_MANIFEST_FILENAME,
+	ETAG_MANIFEST_VERSION,
+	PostBuildAssetsProcessorPlugin,
+	ROUTE_MANIFEST_FILENAME,
+	ROUTE_MANIFEST_VERSION,
+	createBuildReport,
+	createContentSecurityPolicyManifest,
+	createReferenceExtractorRegistry,
+	createSitemapEntries,
+	findAssetsInString,
+	formatSiteUrl,
+	getDocumentBaseUrl,
+	getSiteRootUrl,
+	injectServiceWorkerManifest,
+	mapReferenceUrls,
+	recordReferenceProblem,
+	reportReferenceProblems,
+	resolveSitePath,
+	serializeContentSecurityPolicy,
+	updateCssReferences,
+	updateResponsiveImages,
+	updateUrl
+};
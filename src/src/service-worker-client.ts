@@ -0,0 +1,208 @@
+/**
+ * Page side of the message protocol with the service worker, see sw/messages.ts. Requests
+ * resolve with the result the worker posts back, or reject with its error.
+ *
+ * import { getCacheVersion, onCacheUpdated } from './service-worker-client.ts';
+ */
+import {
+	type CacheUrlsResult,
+	type CacheVersion,
+	type CachedUrl,
+	type OfflineMediaResult,
+	type ServiceWorkerEventType,
+	type ServiceWorkerEvents,
+	type ServiceWorkerRequestMessage,
+	type ServiceWorkerRequestType,
+	type ServiceWorkerRequests,
+	isServiceWorkerReply
+} from '../../sw/messages.ts';
+
+export type { CacheUrlsResult, CacheVersion, CachedUrl, OfflineMediaResult };
+
+/**
+ * Receives the detail of a worker event.
+ */
+export type ServiceWorkerEventListener<T extends ServiceWorkerEventType> = (detail: ServiceWorkerEvents[T]) => void;
+
+/**
+ * A request waiting for its response.
+ */
+interface PendingRequest {
+	resolve: (result: never) => void;
+	reject: (error: Error) => void;
+	timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Milliseconds to wait for a response. Saving media for offline use downloads it in full.
+ */
+const DEFAULT_TIMEOUT_MILLISECONDS = 30 * 1000;
+
+const pendingRequests = new Map<string, PendingRequest>();
+const eventListeners = new Map<ServiceWorkerEventType, Set<ServiceWorkerEventListener<ServiceWorkerEventType>>>();
+
+let nextRequestId = 0;
+let isListening = false;
+
+/**
+ * Settles pending requests with their responses and passes events to their listeners.
+ */
+const handleMessage = (event: MessageEvent): void => {
+	const message: unknown = event.data;
+	if (!isServiceWorkerReply(message)) {
+		return;
+	}
+
+	if (message.kind === 'event') {
+		eventListeners.get(message.type)?.forEach(listener => listener(message.detail));
+		return;
+	}
+
+	const pendingRequest = pendingRequests.get(message.id);
+	if (!pendingRequest) {
+		return;
+	}
+
+	pendingRequests.delete(message.id);
+	clearTimeout(pendingRequest.timeoutId);
+
+	if (message.ok) {
+		pendingRequest.resolve(message.result as never);
+	} else {
+		pendingRequest.reject(new Error(`Service worker request ${message.type} failed: ${message.error}`));
+	}
+};
+
+/**
+ * Starts receiving the messages of the worker, once per page.
+ */
+const listen = (): void => {
+	if (!isListening) {
+		isListening = true;
+		navigator.serviceWorker.addEventListener('message', handleMessage);
+
+		//Messages are queued until the page starts them, addEventListener does not.
+		navigator.serviceWorker.startMessages();
+	}
+};
+
+/**
+ * Sends a request to the active service worker.
+ *
+ * @param type - Request type
+ * @param params - Parameters of the request type
+ * @param timeoutMilliseconds - Time to wait for the response before rejecting
+ * @returns The result of the request
+ */
+export const sendServiceWorkerRequest = async <T extends ServiceWorkerRequestType>(
+	type: T,
+	params: ServiceWorkerRequests[T]['params'],
+	timeoutMilliseconds = DEFAULT_TIMEOUT_MILLISECONDS
+): Promise<ServiceWorkerRequests[T]['result']> => {
+	if (!('serviceWorker' in navigator)) {
+		throw new Error('Service workers are not supported');
+	}
+
+	listen();
+
+	const { active } = await navigator.serviceWorker.ready;
+	const worker = navigator.serviceWorker.controller ?? active;
+	if (!worker) {
+		throw new Error('No active service worker');
+	}
+
+	const id = `${Date.now().toString(36)}-${nextRequestId++}`;
+	const message: ServiceWorkerRequestMessage<T> = { kind: 'request', id, type, params };
+
+	return new Promise((resolve, reject) => {
+		const timeoutId = setTimeout(() => {
+			pendingRequests.delete(id);
+			reject(new Error(`Service worker request ${type} timed out after ${timeoutMilliseconds} ms`));
+		}, timeoutMilliseconds);
+
+		pendingRequests.set(id, { resolve, reject, timeoutId });
+		worker.postMessage(message);
+	});
+};
+
+/**
+ * Listens to an event of the worker.
+ *
+ * @returns A function that removes the listener
+ */
+export const onServiceWorkerEvent = <T extends ServiceWorkerEventType>(type: T, listener: ServiceWorkerEventListener<T>): (() => void) => {
+	if ('serviceWorker' in navigator) {
+		listen();
+	}
+
+	const listeners = eventListeners.get(type) ?? new Set();
+	listeners.add(listener as ServiceWorkerEventListener<ServiceWorkerEventType>);
+	eventListeners.set(type, listeners);
+
+	return () => listeners.delete(listener as ServiceWorkerEventListener<ServiceWorkerEventType>);
+};
+
+/**
+ * Names of the precache and of all other caches.
+ */
+export const getCacheVersion = (): Promise<CacheVersion> => sendServiceWorkerRequest('GET_CACHE_VERSION', null);
+
+/**
+ * Cached URLs and their sizes.
+ *
+ * @param cacheName - Cache to list, all caches if omitted
+ */
+export const listCachedUrls = (cacheName?: string): Promise<CachedUrl[]> => {
+	return sendServiceWorkerRequest('LIST_CACHED_URLS', cacheName ? { cacheName } : {});
+};
+
+/**
+ * Deletes caches.
+ *
+ * @param cacheNames - Caches to delete, all caches except the precache if omitted
+ * @returns The names of the deleted caches
+ */
+export const clearCaches = (cacheNames?: string[]): Promise<string[]> => {
+	return sendServiceWorkerRequest('CLEAR_CACHES', cacheNames ? { cacheNames } : {});
+};
+
+/**
+ * Downloads same-origin URLs, e.g. articles, so that they can be read offline.
+ *
+ * @param urls - URLs to cache, relative to the origin
+ */
+export const cacheUrlsForOffline = (urls: string[]): Promise<CacheUrlsResult> => sendServiceWorkerRequest('CACHE_URLS', { urls });
+
+/**
+ * Asks the service worker to download audio or video and keep it for offline playback. Media
+ * is not cached while it plays, it is too large to keep without the user asking for it.
+ *
+ * @param url - URL of the media, e.g. the src of a video element
+ */
+export const saveMediaForOffline = (url: string): Promise<OfflineMediaResult> => sendServiceWorkerRequest('SAVE_FOR_OFFLINE', { url });
+
+/**
+ * Asks the service worker to remove media saved for offline playback.
+ *
+ * @param url - URL of the media
+ */
+export const removeMediaFromOffline = (url: string): Promise<OfflineMediaResult> => sendServiceWorkerRequest('REMOVE_FROM_OFFLINE', { url });
+
+/**
+ * Listens to responses the worker stored in a cache.
+ *
+ * @returns A function that removes the listener
+ */
+export const onCacheUpdated = (listener: ServiceWorkerEventListener<'CACHE_UPDATED'>): (() => void) => {
+	return onServiceWorkerEvent('CACHE_UPDATED', listener);
+};
+
+/**
+ * Listens to newer versions of the page, found when the worker revalidated the cached version
+ * the page was served from. The page can offer to reload then.
+ *
+ * @returns A function that removes the listener
+ */
+export const onContentUpdated = (listener: ServiceWorkerEventListener<'CONTENT_UPDATED'>): (() => void) => {
+	return onServiceWorkerEvent('CONTENT_UPDATED', listener);
+};
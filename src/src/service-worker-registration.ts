@@ -0,0 +1,106 @@
+/**
+ * Registers the service worker and follows its update lifecycle. Pages include this module
+ * instead of registering the worker themselves:
+ *
+ * <script type="module" src="/src/service-worker-registration.ts"></script>
+ *
+ * When a new worker is installed and waiting, a SERVICE_WORKER_UPDATE_EVENT is dispatched on
+ * window. Calling applyUpdate() of its detail activates the new worker, after which every
+ * controlled page reloads.
+ */
+
+/**
+ * Name of the window event dispatched when an update of the service worker is waiting.
+ */
+export const SERVICE_WORKER_UPDATE_EVENT = 'service-worker-update';
+
+/**
+ * Message that tells a waiting service worker to activate.
+ */
+export const SKIP_WAITING_MESSAGE = { type: 'SKIP_WAITING' } as const;
+
+/**
+ * Detail of the update event.
+ */
+export interface ServiceWorkerUpdateDetail {
+	/** Registration with the waiting worker. */
+	registration: ServiceWorkerRegistration;
+	/** Activates the waiting worker, the page reloads once it controls the page. */
+	applyUpdate: () => void;
+}
+
+const SERVICE_WORKER_URL = '/service-worker.js';
+
+/**
+ * Tells the page that an update is waiting.
+ */
+const dispatchUpdateAvailable = (registration: ServiceWorkerRegistration): void => {
+	const detail: ServiceWorkerUpdateDetail = {
+		registration,
+		applyUpdate: () => registration.waiting?.postMessage(SKIP_WAITING_MESSAGE)
+	};
+
+	window.dispatchEvent(new CustomEvent<ServiceWorkerUpdateDetail>(SERVICE_WORKER_UPDATE_EVENT, { detail }));
+};
+
+/**
+ * Dispatches the update event once a newly installed worker is waiting. The first install is not
+ * an update, the worker claims the page without a reload then.
+ */
+const watchForUpdates = (registration: ServiceWorkerRegistration): void => {
+	if (registration.waiting && navigator.serviceWorker.controller) {
+		dispatchUpdateAvailable(registration);
+	}
+
+	registration.addEventListener('updatefound', () => {
+		const installingWorker = registration.installing;
+		installingWorker?.addEventListener('statechange', () => {
+			if (installingWorker.state === 'installed' && navigator.serviceWorker.controller) {
+				dispatchUpdateAvailable(registration);
+			}
+		});
+	});
+};
+
+/**
+ * Reloads the page when a new worker takes over, so that the page and the worker are from the
+ * same deployment. Does nothing when the first worker claims the page.
+ */
+const reloadOnControllerChange = (): void => {
+	let isReloading = false;
+	const hadController = !!navigator.serviceWorker.controller;
+
+	navigator.serviceWorker.addEventListener('controllerchange', () => {
+		if (hadController && !isReloading) {
+			isReloading = true;
+			window.location.reload();
+		}
+	});
+};
+
+/**
+ * Registers the service worker and starts following its updates.
+ *
+ * @returns The registration, or null if service workers are not supported or registration failed
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+	if (!('serviceWorker' in navigator)) {
+		return null;
+	}
+
+	reloadOnControllerChange();
+
+	try {
+		const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, {
+			type: 'module',
+			updateViaCache: 'none'
+		});
+		watchForUpdates(registration);
+
+		return registration;
+	} catch {
+		return null;
+	}
+};
+
+window.addEventListener('load', registerServiceWorker);
@@ -0,0 +1,91 @@
+/**
+ * App-shell streaming: navigations are answered with a cached header, the page content from the
+ * network and a cached footer, streamed in that order so that the header renders before the
+ * server has responded.
+ *
+ * The server has to support it: requests with the Service-Worker-Navigation-Preload header set
+ * to APP_SHELL_PRELOAD_HEADER_VALUE must be answered with the page content only.
+ */
+export interface AppShellOptions {
+  /** Same-origin URL of the HTML before the page content, e.g. "/shell/header.html". */
+  headerUrl: string;
+  /** Same-origin URL of the HTML after the page content, e.g. "/shell/footer.html". */
+  footerUrl: string;
+}
+
+/**
+ * Navigation preload header value that asks the server for the page content only.
+ */
+export const APP_SHELL_PRELOAD_HEADER_VALUE = 'app-shell';
+
+/**
+ * Shown in place of the page content when it cannot be loaded.
+ */
+const CONTENT_UNAVAILABLE_HTML = '<p>This content is not available offline.</p>';
+
+/**
+ * Copies a response body into a stream.
+ */
+const pipeBody = async (response: Response, controller: ReadableStreamDefaultController<Uint8Array>): Promise<void> => {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    controller.enqueue(chunk.value);
+  }
+};
+
+/**
+ * Fetches the page content, from the navigation preload if the browser started one.
+ */
+const fetchContent = async (request: Request, event: FetchEvent): Promise<Response> => {
+  const preloadResponse: Response | undefined = await event.preloadResponse;
+  if (preloadResponse) {
+    return preloadResponse;
+  }
+
+  return fetch(new Request(request.url, {
+    credentials: 'same-origin',
+    headers: { 'Service-Worker-Navigation-Preload': APP_SHELL_PRELOAD_HEADER_VALUE }
+  }));
+};
+
+/**
+ * Answers a navigation with the streamed app shell.
+ *
+ * @returns The streamed response, or null if the header or footer is not cached
+ */
+export const streamAppShell = async (request: Request, options: AppShellOptions, event: FetchEvent): Promise<Response | null> => {
+  const [header, footer] = await Promise.all([caches.match(options.headerUrl), caches.match(options.footerUrl)]);
+  if (!header || !footer) {
+    return null;
+  }
+
+  //Start the content request right away, it is read once the header is written.
+  const content = fetchContent(request, event);
+  event.waitUntil(content.catch(() => null));
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await pipeBody(header, controller);
+
+      try {
+        const contentResponse = await content;
+        if (!contentResponse.ok) {
+          throw new Error(`Content responded with ${contentResponse.status}`);
+        }
+
+        await pipeBody(contentResponse, controller);
+      } catch {
+        controller.enqueue(new TextEncoder().encode(CONTENT_UNAVAILABLE_HTML));
+      }
+
+      await pipeBody(footer, controller);
+      controller.close();
+    }
+  });
+
+  return new Response(stream, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+};
@@ -0,0 +1,194 @@
+import { createStoreOpener, toPromise } from './indexed-db.js';
+
+/**
+ * Methods of requests that can be queued for replay.
+ */
+export type ReplayMethod = 'DELETE' | 'PATCH' | 'POST' | 'PUT';
+
+/**
+ * A same-origin path whose failed requests are queued and replayed when the connection is back.
+ */
+export interface BackgroundSyncRoute {
+  /** Regular expression tested against the URL path. */
+  urlPattern: RegExp;
+  /** Methods that are queued. Defaults to POST, PUT and DELETE. */
+  methods?: ReplayMethod[];
+  /** Minutes a queued request is kept, older requests are dropped instead of replayed. Defaults to one day. */
+  maxRetentionMinutes?: number;
+}
+
+/**
+ * Result of a queued request, broadcast to the pages on REPLAY_CHANNEL_NAME.
+ */
+export interface ReplayResult {
+  type: 'request-replayed' | 'request-expired';
+  url: string;
+  method: string;
+  /** Time the request was queued, in milliseconds since the epoch. */
+  queuedAt: number;
+  /** Response status of a replayed request. */
+  status?: number;
+}
+
+/**
+ * Background Sync API, which the TypeScript DOM library does not declare yet.
+ */
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+/**
+ * Registration of a worker, with Background Sync where the browser supports it.
+ */
+type SyncRegistration = ServiceWorkerRegistration & { sync?: SyncManager };
+
+/**
+ * Event fired when the browser is online again after a sync was registered.
+ */
+export interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+/**
+ * A failed request, serialized so that it survives worker restarts.
+ */
+interface QueuedRequest {
+  id?: number;
+  url: string;
+  method: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+  queuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Tag of the sync event that replays the queue.
+ */
+export const REPLAY_SYNC_TAG = 'replay-queue';
+
+/**
+ * BroadcastChannel the replay results are posted on.
+ */
+export const REPLAY_CHANNEL_NAME = 'background-sync';
+
+const DATABASE_NAME = 'sw-background-sync';
+const DATABASE_VERSION = 1;
+const REQUEST_STORE = 'requests';
+
+const DEFAULT_REPLAY_METHODS: ReplayMethod[] = ['POST', 'PUT', 'DELETE'];
+const DEFAULT_MAX_RETENTION_MINUTES = 24 * 60;
+const MINUTE_IN_MILLISECONDS = 60 * 1000;
+
+const HttpAccepted = 202;
+
+/**
+ * Opens a store of the queue database in a new transaction.
+ */
+const openStore = createStoreOpener(DATABASE_NAME, DATABASE_VERSION, database => {
+  database.createObjectStore(REQUEST_STORE, { keyPath: 'id', autoIncrement: true });
+});
+
+/**
+ * Replay in progress, so that a sync event and a startup replay do not send requests twice.
+ */
+let replayPromise: Promise<void> | null = null;
+
+/**
+ * Finds the background sync route of a request.
+ */
+export const findBackgroundSyncRoute = (routes: BackgroundSyncRoute[], request: Request): BackgroundSyncRoute | undefined => {
+  const { pathname } = new URL(request.url);
+
+  return routes.find(route => route.urlPattern.test(pathname)
+    && (route.methods ?? DEFAULT_REPLAY_METHODS).includes(request.method as ReplayMethod));
+};
+
+/**
+ * Posts a replay result to the pages.
+ */
+const broadcastResult = (result: ReplayResult): void => {
+  const channel = new BroadcastChannel(REPLAY_CHANNEL_NAME);
+  channel.postMessage(result);
+  channel.close();
+};
+
+/**
+ * Stores a request in the queue and asks the browser for a sync event once it is online.
+ */
+const queueRequest = async (request: Request, route: BackgroundSyncRoute, registration: SyncRegistration): Promise<void> => {
+  const headers: [string, string][] = [];
+  request.headers.forEach((value, name) => headers.push([name, value]));
+
+  const body = await request.arrayBuffer();
+  const queuedAt = Date.now();
+  const queuedRequest: QueuedRequest = {
+    url: request.url,
+    method: request.method,
+    headers,
+    body: body.byteLength > 0 ? body : null,
+    queuedAt,
+    expiresAt: queuedAt + (route.maxRetentionMinutes ?? DEFAULT_MAX_RETENTION_MINUTES) * MINUTE_IN_MILLISECONDS
+  };
+
+  const store = await openStore(REQUEST_STORE, 'readwrite');
+  await toPromise(store.add(queuedRequest));
+
+  //Browsers without Background Sync replay on the next worker startup instead.
+  await registration.sync?.register(REPLAY_SYNC_TAG).catch(() => null);
+};
+
+/**
+ * Sends a request to the network, and queues it for replay if the network is not available.
+ * Queued requests are answered with 202 Accepted.
+ */
+export const fetchOrQueue = async (request: Request, route: BackgroundSyncRoute, registration: SyncRegistration): Promise<Response> => {
+  //The body can only be read once, keep a copy for the queue.
+  const copy = request.clone();
+
+  try {
+    return await fetch(request);
+  } catch {
+    await queueRequest(copy, route, registration);
+
+    return Response.json({ queued: true }, { status: HttpAccepted });
+  }
+};
+
+/**
+ * Replays the queued requests in the order they were queued. Expired requests are dropped.
+ * Rejects when the network is still not available, so that the browser retries the sync event.
+ */
+const replay = async (): Promise<void> => {
+  const queuedRequests = await toPromise((await openStore(REQUEST_STORE, 'readonly')).getAll() as IDBRequest<QueuedRequest[]>);
+
+  for (const queuedRequest of queuedRequests) {
+    const { url, method, queuedAt } = queuedRequest;
+
+    if (queuedRequest.expiresAt < Date.now()) {
+      await toPromise((await openStore(REQUEST_STORE, 'readwrite')).delete(queuedRequest.id as number));
+      broadcastResult({ type: 'request-expired', url, method, queuedAt });
+      continue;
+    }
+
+    //A network error stops the replay, the remaining requests stay queued in order.
+    const response = await fetch(new Request(url, { method, headers: queuedRequest.headers, body: queuedRequest.body }));
+
+    //Any response means the server received the request, replaying it again could apply it twice.
+    await toPromise((await openStore(REQUEST_STORE, 'readwrite')).delete(queuedRequest.id as number));
+    broadcastResult({ type: 'request-replayed', url, method, queuedAt, status: response.status });
+  }
+};
+
+/**
+ * Replays the queue unless a replay is already running.
+ */
+export const replayQueue = (): Promise<void> => {
+  if (!replayPromise) {
+    replayPromise = replay().finally(() => {
+      replayPromise = null;
+    });
+  }
+
+  return replayPromise;
+};
@@ -0,0 +1,36 @@
+/**
+ * Range header parsing shared by the service worker and the Cloudflare worker. This file is
+ * compiled by both the service worker and the worker TypeScript configurations, so it must not
+ * import anything.
+ */
+
+/**
+ * Byte range to serve, with an inclusive end.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses a single range of a Range header, e.g. "bytes=0-99", "bytes=100-" or "bytes=-100".
+ * Returns null for headers that are answered with the full content.
+ */
+export const parseRange = (rangeHeader: string, size: number): ByteRange | 'unsatisfiable' | null => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  if (!match || (!match[1] && !match[2])) {
+    //Multiple ranges and other units are answered with the full content.
+    return null;
+  }
+
+  const [, first, last] = match;
+  if (!first) {
+    const suffixLength = Number(last);
+    return suffixLength > 0 && size > 0 ? { start: Math.max(size - suffixLength, 0), end: size - 1 } : 'unsatisfiable';
+  }
+
+  const start = Number(first);
+  const end = last ? Math.min(Number(last), size - 1) : size - 1;
+
+  return start < size && start <= end ? { start, end } : 'unsatisfiable';
+};
@@ -0,0 +1,178 @@
+import { createStoreOpener, toPromise } from './indexed-db.js';
+import type { RuntimeCachingRoute } from './runtime-caching.js';
+
+/**
+ * Bookkeeping of a runtime cache entry, the Cache API itself does not record when an
+ * entry was stored or last used.
+ */
+interface CacheEntryMetadata {
+  cacheName: string;
+  url: string;
+  /** Time the response was stored, in milliseconds since the epoch. */
+  insertedAt: number;
+  /** Time the response was last served, in milliseconds since the epoch. */
+  lastAccessedAt: number;
+  /** Size of the response body in bytes. */
+  size: number;
+}
+
+/**
+ * Limits of a runtime cache.
+ */
+export type CacheLimits = Pick<RuntimeCachingRoute, 'maxAgeSeconds' | 'maxBytes' | 'maxEntries'>;
+
+const DATABASE_NAME = 'sw-cache-metadata';
+const DATABASE_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const CACHE_NAME_INDEX = 'cacheName';
+
+const SECOND_IN_MILLISECONDS = 1000;
+
+/**
+ * Share of the storage quota above which the least recently used runtime entries are evicted,
+ * before the browser evicts the whole origin.
+ */
+const STORAGE_PRESSURE_RATIO = 0.8;
+
+/**
+ * Share of the storage quota eviction under storage pressure brings the usage down to.
+ */
+const STORAGE_TARGET_RATIO = 0.6;
+
+/**
+ * Opens a store of the metadata database in a new transaction.
+ */
+const openDatabaseStore = createStoreOpener(DATABASE_NAME, DATABASE_VERSION, database => {
+  const store = database.createObjectStore(ENTRY_STORE, { keyPath: ['cacheName', 'url'] });
+  store.createIndex(CACHE_NAME_INDEX, 'cacheName');
+});
+
+/**
+ * Opens the entry store in a new transaction.
+ */
+const openStore = (mode: IDBTransactionMode): Promise<IDBObjectStore> => openDatabaseStore(ENTRY_STORE, mode);
+
+/**
+ * Lists the metadata of the entries of a cache, or of all caches.
+ */
+const getEntries = async (cacheName?: string): Promise<CacheEntryMetadata[]> => {
+  const store = await openStore('readonly');
+  const request = cacheName ? store.index(CACHE_NAME_INDEX).getAll(cacheName) : store.getAll();
+
+  return toPromise(request as IDBRequest<CacheEntryMetadata[]>);
+};
+
+/**
+ * Deletes entries from their caches and their metadata.
+ */
+const deleteEntries = async (entries: CacheEntryMetadata[]): Promise<void> => {
+  await Promise.all(entries.map(async entry => (await caches.open(entry.cacheName)).delete(entry.url)));
+
+  const store = await openStore('readwrite');
+  await Promise.all(entries.map(entry => toPromise(store.delete([entry.cacheName, entry.url]))));
+};
+
+/**
+ * Records a response that was just stored in a runtime cache.
+ */
+export const recordCacheEntry = async (cacheName: string, url: string, size: number): Promise<void> => {
+  const now = Date.now();
+  const store = await openStore('readwrite');
+  await toPromise(store.put({ cacheName, url, insertedAt: now, lastAccessedAt: now, size } satisfies CacheEntryMetadata));
+};
+
+/**
+ * Records that a cached response was served, for the least recently used eviction.
+ */
+export const touchCacheEntry = async (cacheName: string, url: string): Promise<void> => {
+  const store = await openStore('readwrite');
+  const entry = await toPromise(store.get([cacheName, url]) as IDBRequest<CacheEntryMetadata | undefined>);
+  if (entry) {
+    await toPromise(store.put({ ...entry, lastAccessedAt: Date.now() }));
+  }
+};
+
+/**
+ * Checks whether a cached response was stored longer ago than the maximum age.
+ */
+export const isCacheEntryExpired = async (cacheName: string, url: string, maxAgeSeconds?: number): Promise<boolean> => {
+  if (!maxAgeSeconds) {
+    return false;
+  }
+
+  const store = await openStore('readonly');
+  const entry = await toPromise(store.get([cacheName, url]) as IDBRequest<CacheEntryMetadata | undefined>);
+
+  return !!entry && Date.now() - entry.insertedAt > maxAgeSeconds * SECOND_IN_MILLISECONDS;
+};
+
+/**
+ * Enforces the limits of a cache: expired entries are removed first, then the least recently
+ * used entries until both the entry count and the total size are within the limits.
+ *
+ * @returns The number of removed entries
+ */
+export const enforceCacheLimits = async (cacheName: string, limits: CacheLimits): Promise<number> => {
+  const entries = await getEntries(cacheName);
+  const expiredBefore = limits.maxAgeSeconds ? Date.now() - limits.maxAgeSeconds * SECOND_IN_MILLISECONDS : 0;
+
+  const evicted = entries.filter(entry => entry.insertedAt < expiredBefore);
+  const remaining = entries
+    .filter(entry => entry.insertedAt >= expiredBefore)
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  let totalBytes = remaining.reduce((total, entry) => total + entry.size, 0);
+  while (remaining.length > 0
+    && (remaining.length > (limits.maxEntries ?? Infinity) || totalBytes > (limits.maxBytes ?? Infinity))) {
+    const entry = remaining.shift() as CacheEntryMetadata;
+    totalBytes -= entry.size;
+    evicted.push(entry);
+  }
+
+  await deleteEntries(evicted);
+
+  return evicted.length;
+};
+
+/**
+ * Evicts the least recently used runtime entries of all caches when the origin uses more than
+ * STORAGE_PRESSURE_RATIO of its quota, until the usage is down to STORAGE_TARGET_RATIO.
+ *
+ * @returns The number of removed entries
+ */
+export const relieveStoragePressure = async (): Promise<number> => {
+  if (!navigator.storage?.estimate) {
+    return 0;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota || usage < quota * STORAGE_PRESSURE_RATIO) {
+    return 0;
+  }
+
+  const entries = (await getEntries()).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  const evicted: CacheEntryMetadata[] = [];
+  let bytesToFree = usage - quota * STORAGE_TARGET_RATIO;
+  for (const entry of entries) {
+    if (bytesToFree <= 0) {
+      break;
+    }
+
+    evicted.push(entry);
+    bytesToFree -= entry.size;
+  }
+
+  await deleteEntries(evicted);
+
+  return evicted.length;
+};
+
+/**
+ * Removes the metadata of caches that no longer exist.
+ */
+export const purgeCacheMetadata = async (cacheNames: Set<string>): Promise<void> => {
+  const orphaned = (await getEntries()).filter(entry => !cacheNames.has(entry.cacheName));
+
+  const store = await openStore('readwrite');
+  await Promise.all(orphaned.map(entry => toPromise(store.delete([entry.cacheName, entry.url]))));
+};
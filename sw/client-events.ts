@@ -0,0 +1,22 @@
+import type { ServiceWorkerEventMessage, ServiceWorkerEventType, ServiceWorkerEvents } from './messages.js';
+
+//NOTE: The default context is just Worker and we need to be the more specific ServiceWorker.
+declare let self: ServiceWorkerGlobalScope;
+
+/**
+ * Posts an event to the pages the worker controls.
+ *
+ * @param type - Event type
+ * @param detail - Detail of the event type
+ * @param isRecipient - Selects the pages to post to, all pages if omitted
+ */
+export const postEvent = async <T extends ServiceWorkerEventType>(
+  type: T,
+  detail: ServiceWorkerEvents[T],
+  isRecipient: (client: WindowClient) => boolean = () => true
+): Promise<void> => {
+  const message: ServiceWorkerEventMessage<T> = { kind: 'event', type, detail };
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+
+  windowClients.filter(isRecipient).forEach(client => client.postMessage(message));
+};
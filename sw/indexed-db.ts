@@ -0,0 +1,45 @@
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+export const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Opens an IndexedDB database once per worker and returns a function that opens one of its
+ * object stores in a new transaction.
+ *
+ * @param name - Database name
+ * @param version - Database version, upgrade runs when it is higher than the stored one
+ * @param upgrade - Creates the object stores and indexes
+ */
+export const createStoreOpener = (
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase) => void
+): ((storeName: string, mode: IDBTransactionMode) => Promise<IDBObjectStore>) => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+
+      databasePromise = toPromise(request).catch(error => {
+        //Try again on the next call.
+        databasePromise = null;
+        throw error;
+      });
+    }
+
+    return databasePromise;
+  };
+
+  return async (storeName, mode) => {
+    const database = await openDatabase();
+    return database.transaction(storeName, mode).objectStore(storeName);
+  };
+};
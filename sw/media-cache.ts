@@ -0,0 +1,89 @@
+import type { OfflineMediaResult } from './messages.js';
+import { createRangeResponse } from './range-requests.js';
+import { postEvent } from './client-events.js';
+
+/**
+ * Audio and video handling. Media files are too large to cache as a side effect of playing them,
+ * they are only cached when a page saves them for offline use with a SAVE_FOR_OFFLINE request.
+ * Saved media is served from the cache, in parts for Range requests, everything else goes to
+ * the network unchanged.
+ */
+export interface MediaCachingOptions {
+  /** Regular expression tested against the URL path. */
+  urlPattern: RegExp;
+  /** Cache the saved media is stored in. */
+  cacheName: string;
+}
+
+const HttpOk = 200;
+
+/**
+ * Checks whether a same-origin request is for media.
+ */
+export const isMediaRequest = (options: MediaCachingOptions, request: Request): boolean => {
+  return options.urlPattern.test(new URL(request.url).pathname);
+};
+
+/**
+ * Answers a media request from the saved media, or from the network if it is not saved.
+ */
+export const handleMediaRequest = async (request: Request, options: MediaCachingOptions): Promise<Response> => {
+  //Cached by URL only, the Range header of the request does not select a cache entry.
+  const savedResponse = await (await caches.open(options.cacheName)).match(request.url);
+  if (savedResponse) {
+    return createRangeResponse(request, savedResponse);
+  }
+
+  return fetch(request);
+};
+
+/**
+ * Downloads media in full and stores it in the media cache.
+ */
+const saveMedia = async (url: URL, options: MediaCachingOptions): Promise<void> => {
+  //A Range request of the browser may have left a partial response in the HTTP cache.
+  const response = await fetch(new Request(url.href, { cache: 'no-store' }));
+  if (response.status !== HttpOk) {
+    throw new Error(`${url.pathname} responded with ${response.status}`);
+  }
+
+  await (await caches.open(options.cacheName)).put(url.href, response);
+};
+
+/**
+ * Checks that a URL a page sent is same-origin media.
+ */
+const toMediaUrl = (url: string, options: MediaCachingOptions, origin: string): URL => {
+  const mediaUrl = new URL(url, origin);
+  if (mediaUrl.origin !== origin || !options.urlPattern.test(mediaUrl.pathname)) {
+    throw new Error(`${url} is not same-origin media`);
+  }
+
+  return mediaUrl;
+};
+
+/**
+ * Saves media for offline use, as a page asked for.
+ */
+export const saveMediaForOffline = async (url: string, options: MediaCachingOptions, origin: string): Promise<OfflineMediaResult> => {
+  const mediaUrl = toMediaUrl(url, options, origin);
+
+  try {
+    await saveMedia(mediaUrl, options);
+    await postEvent('CACHE_UPDATED', { cacheName: options.cacheName, url: mediaUrl.href });
+
+    return { url: mediaUrl.href, saved: true };
+  } catch (error) {
+    return { url: mediaUrl.href, saved: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Removes media saved for offline use, as a page asked for.
+ */
+export const removeMediaFromOffline = async (url: string, options: MediaCachingOptions, origin: string): Promise<OfflineMediaResult> => {
+  const mediaUrl = toMediaUrl(url, options, origin);
+  await (await caches.open(options.cacheName)).delete(mediaUrl.href);
+
+  return { url: mediaUrl.href, saved: false };
+};
@@ -0,0 +1,136 @@
+import type {
+  CacheUrlsResult,
+  CachedUrl,
+  ServiceWorkerRequestMessage,
+  ServiceWorkerRequestType,
+  ServiceWorkerRequests,
+  ServiceWorkerResponseMessage
+} from './messages.js';
+import { type MediaCachingOptions, removeMediaFromOffline, saveMediaForOffline } from './media-cache.js';
+import { postEvent } from './client-events.js';
+import { purgeCacheMetadata } from './cache-expiration.js';
+
+/**
+ * What the request handlers need to know about the worker.
+ */
+export interface MessageContext {
+  /** Name of the precache of the worker. */
+  precacheName: string;
+  /** Cache the URLs pages save for offline reading are stored in. */
+  offlineReadingCacheName: string;
+  mediaCaching: MediaCachingOptions;
+  /** Origin of the worker, requests for other origins are refused. */
+  origin: string;
+}
+
+/**
+ * Handles a request of one type, rejects with an error that is sent back to the page.
+ */
+type RequestHandler<T extends ServiceWorkerRequestType> = (
+  params: ServiceWorkerRequests[T]['params'],
+  context: MessageContext
+) => Promise<ServiceWorkerRequests[T]['result']>;
+
+/**
+ * Resolves a URL a page sent, rejects URLs of other origins.
+ */
+const toSameOriginUrl = (url: string, origin: string): URL => {
+  const sameOriginUrl = new URL(url, origin);
+  if (sameOriginUrl.origin !== origin) {
+    throw new Error(`${url} is not same-origin`);
+  }
+
+  return sameOriginUrl;
+};
+
+const getCacheVersion: RequestHandler<'GET_CACHE_VERSION'> = async (_params, context) => {
+  return { precacheName: context.precacheName, cacheNames: await caches.keys() };
+};
+
+const listCachedUrls: RequestHandler<'LIST_CACHED_URLS'> = async ({ cacheName }) => {
+  const cacheNames = (await caches.keys()).filter(name => !cacheName || name === cacheName);
+  const cachedUrls: CachedUrl[] = [];
+
+  for (const name of cacheNames) {
+    const cache = await caches.open(name);
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      cachedUrls.push({ cacheName: name, url: request.url, size: response ? (await response.blob()).size : 0 });
+    }
+  }
+
+  return cachedUrls;
+};
+
+const clearCaches: RequestHandler<'CLEAR_CACHES'> = async ({ cacheNames }, context) => {
+  //Without the precache the worker could not answer offline until the next install.
+  const deleted = (await caches.keys()).filter(name => cacheNames ? cacheNames.includes(name) : name !== context.precacheName);
+  await Promise.all(deleted.map(name => caches.delete(name)));
+
+  //The expiration metadata of deleted caches is stale now.
+  await purgeCacheMetadata(new Set(await caches.keys())).catch(() => null);
+
+  return deleted;
+};
+
+const cacheUrls: RequestHandler<'CACHE_URLS'> = async ({ urls }, context) => {
+  const cache = await caches.open(context.offlineReadingCacheName);
+  const result: CacheUrlsResult = { cached: [], failed: [] };
+
+  await Promise.all(urls.map(async url => {
+    try {
+      const { href } = toSameOriginUrl(url, context.origin);
+      const response = await fetch(href);
+      if (!response.ok) {
+        throw new Error(`${url} responded with ${response.status}`);
+      }
+
+      await cache.put(href, response);
+      result.cached.push(href);
+      await postEvent('CACHE_UPDATED', { cacheName: context.offlineReadingCacheName, url: href });
+    } catch (error) {
+      result.failed.push({ url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }));
+
+  return result;
+};
+
+const saveForOffline: RequestHandler<'SAVE_FOR_OFFLINE'> = ({ url }, context) => {
+  return saveMediaForOffline(url, context.mediaCaching, context.origin);
+};
+
+const removeFromOffline: RequestHandler<'REMOVE_FROM_OFFLINE'> = ({ url }, context) => {
+  return removeMediaFromOffline(url, context.mediaCaching, context.origin);
+};
+
+/**
+ * Handlers of the request types.
+ */
+const handlers: { [type in ServiceWorkerRequestType]: RequestHandler<type> } = {
+  GET_CACHE_VERSION: getCacheVersion,
+  LIST_CACHED_URLS: listCachedUrls,
+  CLEAR_CACHES: clearCaches,
+  CACHE_URLS: cacheUrls,
+  SAVE_FOR_OFFLINE: saveForOffline,
+  REMOVE_FROM_OFFLINE: removeFromOffline
+};
+
+/**
+ * Handles a request of a page.
+ *
+ * @returns The response to post back to the page, with the id of the request
+ */
+export const handleRequestMessage = async <T extends ServiceWorkerRequestType>(
+  message: ServiceWorkerRequestMessage<T>,
+  context: MessageContext
+): Promise<ServiceWorkerResponseMessage<T>> => {
+  const { id, type } = message;
+
+  try {
+    const result = await (handlers[type] as RequestHandler<T>)(message.params, context);
+    return { kind: 'response', id, type, ok: true, result };
+  } catch (error) {
+    return { kind: 'response', id, type, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
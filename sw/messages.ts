@@ -0,0 +1,144 @@
+/**
+ * Message protocol between pages and the service worker. This file is compiled by both the
+ * service worker and the page TypeScript configurations, so it must not import anything.
+ *
+ * A page posts a request to the worker that controls it, the worker posts the response back to
+ * that page with the id of the request. Events are posted to the pages the worker controls.
+ */
+
+/**
+ * Version of the caches of the active worker.
+ */
+export interface CacheVersion {
+  /** Name of the precache, it changes with every deployment that changes a precached file. */
+  precacheName: string;
+  /** Names of all caches of the origin. */
+  cacheNames: string[];
+}
+
+/**
+ * A cached response.
+ */
+export interface CachedUrl {
+  cacheName: string;
+  url: string;
+  /** Size of the response body in bytes. */
+  size: number;
+}
+
+/**
+ * Result of caching URLs for offline reading.
+ */
+export interface CacheUrlsResult {
+  /** URLs that were cached. */
+  cached: string[];
+  /** URLs that could not be cached, with the reason. */
+  failed: { url: string, error: string }[];
+}
+
+/**
+ * Result of saving media for offline use or removing it.
+ */
+export interface OfflineMediaResult {
+  url: string;
+  /** Whether the media is saved after the request was handled. */
+  saved: boolean;
+  /** Why the media could not be saved or removed. */
+  error?: string;
+}
+
+/**
+ * Requests a page can send, by type, with their parameters and the result they resolve with.
+ */
+export interface ServiceWorkerRequests {
+  /** Names of the precache and of all other caches. */
+  GET_CACHE_VERSION: { params: null, result: CacheVersion };
+  /** Cached URLs and their sizes, of one cache or of all caches. */
+  LIST_CACHED_URLS: { params: { cacheName?: string }, result: CachedUrl[] };
+  /** Deletes caches, by default all caches except the precache. Resolves with the deleted cache names. */
+  CLEAR_CACHES: { params: { cacheNames?: string[] }, result: string[] };
+  /** Downloads same-origin URLs, e.g. pages, into the offline reading cache. */
+  CACHE_URLS: { params: { urls: string[] }, result: CacheUrlsResult };
+  /** Downloads audio or video in full and keeps it for offline playback. */
+  SAVE_FOR_OFFLINE: { params: { url: string }, result: OfflineMediaResult };
+  /** Removes media saved for offline playback. */
+  REMOVE_FROM_OFFLINE: { params: { url: string }, result: OfflineMediaResult };
+}
+
+export type ServiceWorkerRequestType = keyof ServiceWorkerRequests;
+
+/**
+ * A request posted by a page.
+ */
+export interface ServiceWorkerRequestMessage<T extends ServiceWorkerRequestType = ServiceWorkerRequestType> {
+  kind: 'request';
+  /** Correlates the response with the request, unique per page. */
+  id: string;
+  type: T;
+  params: ServiceWorkerRequests[T]['params'];
+}
+
+/**
+ * The response to a request, posted to the page that sent it.
+ */
+export type ServiceWorkerResponseMessage<T extends ServiceWorkerRequestType = ServiceWorkerRequestType> = {
+  kind: 'response';
+  id: string;
+  type: T;
+} & ({ ok: true, result: ServiceWorkerRequests[T]['result'] } | { ok: false, error: string });
+
+/**
+ * Events the worker posts to the pages, by type, with their detail.
+ */
+export interface ServiceWorkerEvents {
+  /** A response was stored in a cache. */
+  CACHE_UPDATED: { cacheName: string, url: string };
+  /**
+   * A revalidated page differs from the cached version the page was served from, posted to the
+   * pages showing it so that they can offer to reload.
+   */
+  CONTENT_UPDATED: { cacheName: string, url: string };
+}
+
+export type ServiceWorkerEventType = keyof ServiceWorkerEvents;
+
+/**
+ * An event posted by the worker.
+ */
+export interface ServiceWorkerEventMessage<T extends ServiceWorkerEventType = ServiceWorkerEventType> {
+  kind: 'event';
+  type: T;
+  detail: ServiceWorkerEvents[T];
+}
+
+/**
+ * Request types, for validating messages at runtime.
+ */
+export const SERVICE_WORKER_REQUEST_TYPES: readonly ServiceWorkerRequestType[] = [
+  'GET_CACHE_VERSION',
+  'LIST_CACHED_URLS',
+  'CLEAR_CACHES',
+  'CACHE_URLS',
+  'SAVE_FOR_OFFLINE',
+  'REMOVE_FROM_OFFLINE'
+];
+
+/**
+ * Checks whether a message is a request of the protocol.
+ */
+export const isServiceWorkerRequest = (data: unknown): data is ServiceWorkerRequestMessage => {
+  const message = data as Partial<ServiceWorkerRequestMessage> | null;
+
+  return message?.kind === 'request'
+    && typeof message.id === 'string'
+    && SERVICE_WORKER_REQUEST_TYPES.includes(message.type as ServiceWorkerRequestType);
+};
+
+/**
+ * Checks whether a message is a response or an event of the protocol.
+ */
+export const isServiceWorkerReply = (data: unknown): data is ServiceWorkerResponseMessage | ServiceWorkerEventMessage => {
+  const message = data as Partial<ServiceWorkerResponseMessage | ServiceWorkerEventMessage> | null;
+
+  return message?.kind === 'response' || message?.kind === 'event';
+};
@@ -0,0 +1,39 @@
+import { parseRange } from './byte-ranges.js';
+
+const HttpOk = 200;
+const HttpPartialContent = 206;
+const HttpRangeNotSatisfiable = 416;
+
+/**
+ * Answers a request from a cached full response: the requested part as 206 Partial Content, or
+ * 416 Range Not Satisfiable, if the request has a Range header, otherwise the full response.
+ * Media elements send Range requests to seek and do not play a 200 response to them everywhere.
+ */
+export const createRangeResponse = async (request: Request, cachedResponse: Response): Promise<Response> => {
+  const rangeHeader = request.headers.get('Range');
+  if (!rangeHeader || cachedResponse.status !== HttpOk) {
+    return cachedResponse;
+  }
+
+  const content = await cachedResponse.blob();
+  const range = parseRange(rangeHeader, content.size);
+  const headers = new Headers(cachedResponse.headers);
+  headers.set('Accept-Ranges', 'bytes');
+
+  if (!range) {
+    return new Response(content, { headers, status: HttpOk });
+  }
+
+  if (range === 'unsatisfiable') {
+    headers.delete('Content-Type');
+    headers.delete('Content-Length');
+    headers.set('Content-Range', `bytes */${content.size}`);
+    return new Response(null, { headers, status: HttpRangeNotSatisfiable });
+  }
+
+  headers.set('Content-Range', `bytes ${range.start}-${range.end}/${content.size}`);
+  headers.set('Content-Length', String(range.end - range.start + 1));
+
+  //Blob.slice does not copy the content, large media stays on disk.
+  return new Response(content.slice(range.start, range.end + 1), { headers, status: HttpPartialContent });
+};
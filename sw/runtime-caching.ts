@@ -0,0 +1,156 @@
+import type { AppShellOptions } from './app-shell.js';
+import type { BackgroundSyncRoute } from './background-sync.js';
+import type { MediaCachingOptions } from './media-cache.js';
+
+//__PAGE_STRATEGY is a placeholder the post-build step replaces with a literal, it is undefined
+//when the worker is served unprocessed in development.
+declare let self: ServiceWorkerGlobalScope & {
+  __PAGE_STRATEGY?: PageStrategy;
+};
+
+/**
+ * How a route answers requests:
+ * - cache-first: the cached response, or the network response which is then cached.
+ * - network-first: the network response which is then cached, or the cached response when offline
+ *   or when the network takes longer than the timeout.
+ * - stale-while-revalidate: the cached response while the cache is updated in the background,
+ *   or the network response if nothing is cached yet.
+ * - network-only: the network response, never cached.
+ * - cache-only: the cached response, never fetched.
+ */
+export type CachingStrategy = 'cache-first' | 'network-first' | 'stale-while-revalidate' | 'network-only' | 'cache-only';
+
+/**
+ * Matches a same-origin GET request, for conditions a URL pattern cannot express.
+ */
+export type RouteMatcher = (url: URL, request: Request) => boolean;
+
+/**
+ * A runtime caching rule. The first route whose pattern matches a request handles it.
+ */
+export interface RuntimeCachingRoute {
+  /** Regular expression tested against the URL path, or a function deciding on the request. */
+  urlPattern: RegExp | RouteMatcher;
+  /** How the route answers requests. */
+  strategy: CachingStrategy;
+  /** Cache the responses are stored in. Defaults to "runtime". */
+  cacheName?: string;
+  /** Maximum number of responses kept in the cache, the least recently used are removed first. */
+  maxEntries?: number;
+  /** Maximum age of a cached response in seconds, older responses are removed. */
+  maxAgeSeconds?: number;
+  /** Maximum total size of the cached response bodies in bytes, the least recently used are removed first. */
+  maxBytes?: number;
+  /** Seconds to wait for the network before network-first falls back to the cache. */
+  networkTimeoutSeconds?: number;
+  /**
+   * Whether stale-while-revalidate compares the revalidated response with the cached one, by ETag
+   * or body hash, and posts CONTENT_UPDATED to the pages showing it when they differ.
+   */
+  notifyOnUpdate?: boolean;
+}
+
+/**
+ * Cache name of routes without a cacheName.
+ */
+export const DEFAULT_RUNTIME_CACHE_NAME = 'runtime';
+
+const DAY_IN_SECONDS = 86400;
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Strategies pages can be answered with.
+ */
+type PageStrategy = Extract<CachingStrategy, 'network-first' | 'stale-while-revalidate'>;
+
+/**
+ * How pages are answered, injected at build time from the serviceWorkerPageStrategy option.
+ * network-first waits for the network up to the timeout, while stale-while-revalidate answers
+ * from the cache right away and tells the page when the revalidated version differs, so that it
+ * can offer to reload.
+ */
+const PAGE_STRATEGY: PageStrategy = self.__PAGE_STRATEGY ?? 'network-first';
+
+/**
+ * File extensions of static files that are cached.
+ */
+const CACHEABLE_EXTENSIONS = [
+  'js', 'css', 'json', 'woff', 'woff2', 'ttf', 'eot',
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'svg', 'ico'
+];
+
+/**
+ * File extensions of audio and video, which are only cached when a page saves them for offline use.
+ */
+const MEDIA_EXTENSIONS = ['mp4', 'webm', 'mp3', 'wav'];
+
+/**
+ * Audio and video, handled before the runtime caching routes. Saved media is answered from the
+ * cache, in parts for Range requests, other media requests go to the network.
+ */
+export const mediaCaching: MediaCachingOptions = {
+  urlPattern: new RegExp(`\\.(${MEDIA_EXTENSIONS.join('|')})$`, 'i'),
+  cacheName: 'media'
+};
+
+/**
+ * Runtime caching routes, tried in order. Requests no route matches are not handled by the worker.
+ */
+export const runtimeCaching: RuntimeCachingRoute[] = [
+  //Pages: the latest version, without leaving the user waiting on a bad connection, see PAGE_STRATEGY.
+  {
+    urlPattern: (_url, request) => request.mode === 'navigate' || (request.headers.get('Accept') ?? '').includes('text/html'),
+    strategy: PAGE_STRATEGY,
+    cacheName: 'pages',
+    maxEntries: 50,
+    networkTimeoutSeconds: 3,
+    notifyOnUpdate: true
+  },
+  //Files with a content hash in their name never change.
+  {
+    urlPattern: /[-_.][a-zA-Z0-9]{5,}\.[a-zA-Z0-9]+$/,
+    strategy: 'cache-first',
+    cacheName: 'assets',
+    maxEntries: 200,
+    maxAgeSeconds: 365 * DAY_IN_SECONDS,
+    maxBytes: 50 * MEGABYTE
+  },
+  //Unhashed files that are expected to change between deployments.
+  {
+    urlPattern: /^\/manifest\.json$/,
+    strategy: 'stale-while-revalidate'
+  },
+  {
+    urlPattern: new RegExp(`\\.(${CACHEABLE_EXTENSIONS.join('|')})$`, 'i'),
+    strategy: 'cache-first',
+    maxEntries: 100,
+    maxAgeSeconds: 30 * DAY_IN_SECONDS,
+    maxBytes: 25 * MEGABYTE
+  },
+  {
+    urlPattern: /.*/,
+    strategy: 'network-only'
+  }
+];
+
+/**
+ * Same-origin paths whose failed POST, PUT and DELETE requests are queued in IndexedDB and
+ * replayed when the connection is back. Opt-in, e.g.:
+ *
+ * { urlPattern: /^\/api\//, methods: ['POST'], maxRetentionMinutes: 60 }
+ */
+export const backgroundSyncRoutes: BackgroundSyncRoute[] = [];
+
+/**
+ * Cache of the URLs pages save for offline reading with a CACHE_URLS request. It has no limits,
+ * entries stay until a page clears the cache.
+ */
+export const OFFLINE_READING_CACHE_NAME = 'offline-reading';
+
+/**
+ * Streams navigations as a cached header and footer around the page content from the network,
+ * see AppShellOptions for what the server has to support. Disabled when null, e.g.:
+ *
+ * { headerUrl: '/shell/header.html', footerUrl: '/shell/footer.html' }
+ */
+export const appShell: AppShellOptions | null = null;
@@ -1,66 +1,182 @@
+import { APP_SHELL_PRELOAD_HEADER_VALUE, streamAppShell } from './app-shell.js';
+import {
+  DEFAULT_RUNTIME_CACHE_NAME,
+  OFFLINE_READING_CACHE_NAME,
+  appShell,
+  backgroundSyncRoutes,
+  mediaCaching,
+  runtimeCaching
+} from './runtime-caching.js';
+import { type MessageContext, handleRequestMessage } from './message-handlers.js';
+import { REPLAY_SYNC_TAG, type SyncEvent, fetchOrQueue, findBackgroundSyncRoute, replayQueue } from './background-sync.js';
+import { enforceCacheLimits, purgeCacheMetadata } from './cache-expiration.js';
+import { findRoute, handleRoute, putCache } from './strategies.js';
+import { handleMediaRequest, isMediaRequest } from './media-cache.js';
+import { isServiceWorkerRequest } from './messages.js';
+
 //There needs to be at least one export so that this isn't in global scope.
 export type Version = number;
 
 const version: Version = 0;
 
+/**
+ * An URL to precache on install, with a revision that changes with its content.
+ */
+interface PrecacheEntry {
+  url: string;
+  revision: string;
+}
+
 //NOTE: The default context is just Worker and we need to be the more specific ServiceWorker.
-declare let self: ServiceWorkerGlobalScope
+//The __PRECACHE_* properties are placeholders the post-build step replaces with literals,
+//they are undefined when the worker is served unprocessed in development.
+declare let self: ServiceWorkerGlobalScope & {
+  __PRECACHE_MANIFEST?: PrecacheEntry[];
+  __PRECACHE_CACHE_NAME?: string;
+  __OFFLINE_PAGE_URL?: string;
+}
 
 /**
- * Core assets to cache on install
+ * Assets to cache on install, injected at build time.
  */
-const coreAssets: string[] = [
-  '/offline.html'
-];
+const precacheManifest: PrecacheEntry[] = self.__PRECACHE_MANIFEST ?? [];
 
 /**
- * Cache name for versioning
+ * Prefix of the precache names, the rest changes with the precache manifest.
  */
-const cacheName = 'test-site-1';
+const PRECACHE_CACHE_NAME_PREFIX = 'precache-';
 
 /**
- * File extensions that should be cached.
+ * Cache name for precached assets, derived at build time from the precache manifest.
  */
-const CACHEABLE_EXTENSIONS = [
-  'js', 'css', 'json', 'woff', 'woff2', 'ttf', 'eot',
-  'png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'ico',
-  'mp4', 'webm', 'mp3', 'wav'
-];
+const cacheName: string = self.__PRECACHE_CACHE_NAME ?? `${PRECACHE_CACHE_NAME_PREFIX}dev`;
 
 /**
- * Checks if a URL has a hash pattern.
+ * Page served for pages that cannot be loaded offline, injected at build time. Empty if the
+ * build has no offline page.
  */
-const hasHashPattern = (url: string): boolean => {
-  return /[-_.][a-zA-Z0-9]{5,}\.[a-zA-Z0-9]+$/i.test(new URL(url, self.location.origin).pathname);
+const offlinePageUrl: string = self.__OFFLINE_PAGE_URL ?? '/offline.html';
+
+/**
+ * Caches of the runtime caching routes, kept on activate.
+ */
+const runtimeCacheNames = new Set(runtimeCaching.map(route => route.cacheName ?? DEFAULT_RUNTIME_CACHE_NAME));
+
+/**
+ * Caches of what pages saved for offline use, kept on activate until the pages remove it.
+ */
+const savedCacheNames = new Set([OFFLINE_READING_CACHE_NAME, mediaCaching.cacheName]);
+
+/**
+ * What the handlers of page requests need to know about the worker.
+ */
+const messageContext: MessageContext = {
+  precacheName: cacheName,
+  offlineReadingCacheName: OFFLINE_READING_CACHE_NAME,
+  mediaCaching,
+  origin: self.location.origin
 };
 
 /**
- * Checks if a URL should be cached based on extension and/or hash pattern.
+ * Creates the response for a request neither the network nor the cache could answer.
  */
-const shouldCache = (url: string): boolean => {
-  try {
-    const urlObj = new URL(url, self.location.origin);
+const createOfflineResponse = async (request: Request): Promise<Response> => {
+  const acceptHeader = request.headers.get('Accept') || '';
 
-    //Always cache assets with hash patterns.
-    if (hasHashPattern(urlObj.toString())) {
-      return true;
-    }
+  //Pages fall back to the offline page, which lists the pages that are cached.
+  if (acceptHeader.includes('text/html')) {
+    const fallbackResponse = offlinePageUrl && await caches.match(offlinePageUrl);
+    return fallbackResponse || new Response('Offline page not found', {
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: new Headers({
+        'Content-Type': 'text/plain'
+      })
+    });
+  }
+
+  //Return appropriate fallback based on content type.
+  if (acceptHeader.includes('text/css')) {
+    return new Response('/* Offline stylesheet */', {
+      headers: { 'Content-Type': 'text/css' }
+    });
+  } else if (acceptHeader.includes('text/javascript')) {
+    return new Response('/* Offline script */', {
+      headers: { 'Content-Type': 'text/javascript' }
+    });
+  } else if (acceptHeader.includes('image') || acceptHeader.includes('audio') || acceptHeader.includes('video')
+    || isMediaRequest(mediaCaching, request)) {
+    //Return empty response for images and media.
+    return new Response('', {
+      status: 503,
+      statusText: 'Service Unavailable'
+    });
+  }
+
+  //Default response for other requests.
+  return new Response('Resource unavailable offline', {
+    status: 503,
+    statusText: 'Service Unavailable'
+  });
+};
+
+/**
+ * Moves the entries of previous precaches that are no longer precached into the caches of their
+ * runtime routes. Pages cached before an update still reference the hashed assets of their
+ * deployment, which the server may no longer have. The limits of the runtime caches apply.
+ */
+const retainPreviousAssets = async (previousCacheNames: string[], precachedUrls: Set<string>): Promise<void> => {
+  for (const previousCacheName of previousCacheNames) {
+    const previousCache = await caches.open(previousCacheName);
 
-    //Check exceptions list.
-    const pathExceptions = ['/service-worker.js', '/offline.html', '/manifest.json'];
-    if (pathExceptions.includes(urlObj.pathname)) {
-      return true;
+    for (const request of await previousCache.keys()) {
+      const route = !precachedUrls.has(request.url) && findRoute(runtimeCaching, request);
+      const response = route && route.strategy !== 'network-only' && await previousCache.match(request);
+      if (route && response) {
+        await putCache(request, response, route);
+      }
     }
+  }
+};
+
+/**
+ * Lets the browser start navigation requests while the worker starts up. In app-shell mode the
+ * preload asks the server for the page content only.
+ */
+const enableNavigationPreload = async (): Promise<void> => {
+  if (!self.registration.navigationPreload) {
+    return;
+  }
 
-    //Cache based on file extension.
-    const fileExtension = urlObj.pathname.split('.').pop()?.toLowerCase();
-    if (fileExtension && CACHEABLE_EXTENSIONS.includes(fileExtension)) {
-      return true;
+  await self.registration.navigationPreload.enable();
+  if (appShell) {
+    await self.registration.navigationPreload.setHeaderValue(APP_SHELL_PRELOAD_HEADER_VALUE);
+  }
+};
+
+/**
+ * Caches every precache manifest entry. Rejects with the URLs that could not be cached, so that
+ * the install fails instead of activating a worker that cannot work offline.
+ */
+const precache = async (): Promise<void> => {
+  const cache = await caches.open(cacheName);
+
+  //Bypass the HTTP cache so that the revisions in the manifest are what gets cached.
+  const results = await Promise.allSettled(precacheManifest.map(async entry => {
+    const response = await fetch(new Request(entry.url, { cache: 'reload' }));
+    if (!response.ok || response.redirected) {
+      throw new Error(`${entry.url} responded with ${response.status}${response.redirected ? ' after a redirect' : ''}`);
     }
 
-    return false;
-  } catch (e) {
-    return false;
+    await cache.put(entry.url, response);
+  }));
+
+  const failures = results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .map(result => result.reason instanceof Error ? result.reason.message : String(result.reason));
+
+  if (failures.length > 0) {
+    throw new Error(`Precaching failed for ${failures.length} of ${precacheManifest.length} entries: ${failures.join('; ')}`);
   }
 };
 
@@ -70,18 +186,10 @@ if (typeof self !== 'undefined') {
   }
 
   /**
-   * On install, cache core assets
+   * On install, cache the precache manifest
    */
   self.addEventListener('install', (event: ExtendableEvent): void => {
-    //Cache core assets.
-    event.waitUntil(
-      caches.open(cacheName).then((cache: Cache) => {
-        for (const asset of coreAssets) {
-          cache.add(new Request(asset));
-        }
-        return cache;
-      })
-    );
+    event.waitUntil(precache());
   });
 
   /**
@@ -97,129 +205,132 @@ if (typeof self !== 'undefined') {
       return;
     }
 
-    //Skip non-GET requests and requests to other origins.
-    if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    const isSameOrigin = new URL(request.url).origin === self.location.origin;
+
+    //Failed writes to the background sync routes are queued, other non-GET requests are not handled.
+    if (request.method !== 'GET') {
+      const syncRoute = isSameOrigin && findBackgroundSyncRoute(backgroundSyncRoutes, request);
+      if (syncRoute) {
+        event.respondWith(fetchOrQueue(request, syncRoute, self.registration));
+      }
       return;
     }
 
-    //Get Accept header value.
-    const acceptHeader = request.headers.get('Accept') || '';
+    //Skip requests to other origins.
+    if (!isSameOrigin) {
+      return;
+    }
 
-    //HTML files - Network-first strategy.
-    if (acceptHeader.includes('text/html')) {
+    //In app-shell mode, navigations stream the cached shell around the content from the network.
+    if (appShell && request.mode === 'navigate') {
       event.respondWith(
-        fetch(request)
-          .then((response: Response) => {
-            //Create a copy of the response and save it to the cache.
-            const copy = response.clone();
-            event.waitUntil(
-              caches.open(cacheName).then((cache: Cache) => {
-                return cache.put(request, copy);
-              })
-            );
-            //Return the response.
-            return response;
-          })
-          .catch(async () => {
-            //If there's no item in cache, respond with a fallback.
-            const response = await caches.match(request);
-            return response || caches.match('/offline.html').then(fallbackResponse => {
-              return fallbackResponse || new Response('Offline page not found', {
-                status: 503,
-                statusText: 'Service Unavailable',
-                headers: new Headers({
-                  'Content-Type': 'text/plain'
-                })
-              });
-            });
-          })
+        streamAppShell(request, appShell, event)
+          .then(response => response ?? fetch(request))
+          .catch(() => createOfflineResponse(request))
       );
       return;
     }
 
-    //For assets that should be cached.
-    if (shouldCache(request.url)) {
+    //Media is answered from the cache only if a page saved it for offline use.
+    if (isMediaRequest(mediaCaching, request)) {
       event.respondWith(
-        caches.match(request).then((response) => {
-          //If asset is in cache already, return it immediately.
-          if (response) {
-            return response;
-          }
-
-          //Otherwise fetch from network and cache.
-          return fetch(request)
-            .then((fetchResponse) => {
-              //Save a copy in cache.
-              const copy = fetchResponse.clone();
-              event.waitUntil(
-                caches.open(cacheName).then((cache) => {
-                  return cache.put(request, copy);
-                })
-              );
-              //Return the response.
-              return fetchResponse;
-            })
-            .catch(() => {
-              //Return appropriate fallback based on content type.
-              if (acceptHeader.includes('text/css')) {
-                return new Response('/* Offline stylesheet */', {
-                  headers: { 'Content-Type': 'text/css' }
-                });
-              } else if (acceptHeader.includes('text/javascript')) {
-                return new Response('/* Offline script */', {
-                  headers: { 'Content-Type': 'text/javascript' }
-                });
-              } else if (acceptHeader.includes('image')) {
-                //Return empty response for images.
-                return new Response('', {
-                  status: 503,
-                  statusText: 'Service Unavailable'
-                });
-              } else if (acceptHeader.includes('audio') || acceptHeader.includes('video')) {
-                //Return empty response for media.
-                return new Response('', {
-                  status: 503,
-                  statusText: 'Service Unavailable'
-                });
-              } else {
-                //Default response for other assets.
-                return new Response('Resource unavailable offline', {
-                  status: 503,
-                  statusText: 'Service Unavailable'
-                });
-              }
-            });
-        })
+        handleMediaRequest(request, mediaCaching).catch(() => createOfflineResponse(request))
       );
       return;
     }
 
-    //For all other requests, try network first, don't cache.
-    //This is a fallback for any unhandled request types.
+    //The first matching route of the runtime caching table handles the request.
+    const route = findRoute(runtimeCaching, request);
+    if (!route) {
+      return;
+    }
+
     event.respondWith(
-      fetch(request)
+      handleRoute(request, route, event).catch(() => createOfflineResponse(request))
+    );
+  });
+
+  /**
+   * On activate, clean up old caches, entries no longer in the precache manifest and expired runtime entries
+   */
+  self.addEventListener('activate', (event: ExtendableEvent): void => {
+    const precachedUrls = new Set(precacheManifest.map(entry => new URL(entry.url, self.location.origin).href));
+
+    event.waitUntil(
+      caches.keys()
+        .then(async keys => {
+          const obsoleteKeys = keys.filter(key => key !== cacheName && !savedCacheNames.has(key) && !runtimeCacheNames.has(key));
+
+          //Keep the assets the pages cached before the update reference.
+          const previousPrecacheNames = obsoleteKeys.filter(key => key.startsWith(PRECACHE_CACHE_NAME_PREFIX));
+          await retainPreviousAssets(previousPrecacheNames, precachedUrls).catch(() => null);
+
+          //Clean up old cache versions.
+          return Promise.all(obsoleteKeys.map(key => caches.delete(key)));
+        })
+        .then(() => caches.open(cacheName))
+        .then(async cache => {
+          //Clean up entries that are no longer listed.
+          const requests = await cache.keys();
+          return Promise.all(
+            requests
+              .filter(request => !precachedUrls.has(request.url))
+              .map(request => cache.delete(request))
+          );
+        })
+        .then(async () => {
+          //Purge expired runtime entries and the metadata of deleted caches.
+          await purgeCacheMetadata(runtimeCacheNames);
+          for (const route of runtimeCaching.filter(({ maxAgeSeconds, maxBytes, maxEntries }) => maxAgeSeconds || maxBytes || maxEntries)) {
+            await enforceCacheLimits(route.cacheName ?? DEFAULT_RUNTIME_CACHE_NAME, route);
+          }
+        })
         .catch(() => {
-          return new Response('Network request failed', {
-            status: 503,
-            statusText: 'Service Unavailable'
-          });
+          //Expiration is best effort, IndexedDB is not available in every browsing mode.
         })
+        .then(() => enableNavigationPreload())
+        //Take control of pages that were loaded without a worker, updates reload their pages themselves.
+        .then(() => self.clients.claim())
     );
   });
 
   /**
-   * On activate, clean up old caches
+   * Replay the queued requests once the browser is online again.
    */
-  self.addEventListener('activate', (event: ExtendableEvent): void => {
-    //Clean up old cache versions.
+  self.addEventListener('sync', (event: Event): void => {
+    const syncEvent = event as SyncEvent;
+    if (syncEvent.tag === REPLAY_SYNC_TAG) {
+      syncEvent.waitUntil(replayQueue());
+    }
+  });
+
+  //Without Background Sync, the queue is replayed whenever the worker starts.
+  if (!('sync' in self.registration)) {
+    replayQueue().catch(() => {
+      //Still offline, try again on the next startup.
+    });
+  }
+
+  /**
+   * A page asks a waiting worker to activate once the user accepted the update.
+   */
+  self.addEventListener('message', (event: ExtendableMessageEvent): void => {
+    if (event.data?.type === 'SKIP_WAITING') {
+      event.waitUntil(self.skipWaiting());
+    }
+  });
+
+  /**
+   * Requests of pages, answered to the page that sent them, see messages.ts for the protocol.
+   */
+  self.addEventListener('message', (event: ExtendableMessageEvent): void => {
+    if (!isServiceWorkerRequest(event.data)) {
+      return;
+    }
+
+    const source = event.source;
     event.waitUntil(
-      caches.keys().then(keys => {
-        return Promise.all(
-          keys
-            .filter(key => key !== cacheName)
-            .map(key => caches.delete(key))
-        );
-      })
+      handleRequestMessage(event.data, messageContext).then(response => source?.postMessage(response))
     );
   });
 }
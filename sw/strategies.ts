@@ -0,0 +1,222 @@
+import { type CachingStrategy, DEFAULT_RUNTIME_CACHE_NAME, type RuntimeCachingRoute, appShell } from './runtime-caching.js';
+import {
+  enforceCacheLimits,
+  isCacheEntryExpired,
+  recordCacheEntry,
+  relieveStoragePressure,
+  touchCacheEntry
+} from './cache-expiration.js';
+import { postEvent } from './client-events.js';
+
+/**
+ * Answers a request for a route, rejects if neither the network nor the cache has a response.
+ */
+type StrategyHandler = (request: Request, route: RuntimeCachingRoute, event: FetchEvent) => Promise<Response>;
+
+const SECOND_IN_MILLISECONDS = 1000;
+const HttpOk = 200;
+
+/**
+ * Finds the route that handles a request.
+ */
+export const findRoute = (routes: RuntimeCachingRoute[], request: Request): RuntimeCachingRoute | undefined => {
+  const url = new URL(request.url);
+
+  return routes.find(route => route.urlPattern instanceof RegExp
+    ? route.urlPattern.test(url.pathname)
+    : route.urlPattern(url, request));
+};
+
+/**
+ * Finds a fresh cached response for a request in the cache of its route, expired responses are
+ * removed. Falls back to the other caches, so that precached responses are used too.
+ */
+const matchCache = async (request: Request, route: RuntimeCachingRoute, event: FetchEvent): Promise<Response | undefined> => {
+  const cacheName = route.cacheName ?? DEFAULT_RUNTIME_CACHE_NAME;
+  const cache = await caches.open(cacheName);
+  const response = await cache.match(request);
+  const isExpired = response && await isCacheEntryExpired(cacheName, request.url, route.maxAgeSeconds).catch(() => false);
+
+  if (response && isExpired) {
+    await cache.delete(request);
+  } else if (response) {
+    event.waitUntil(touchCacheEntry(cacheName, request.url).catch(() => null));
+    return response;
+  }
+
+  return caches.match(request);
+};
+
+/**
+ * Stores a response in the cache of its route, tells the pages and enforces the limits of the
+ * cache and the origin.
+ */
+export const putCache = async (request: Request, response: Response, route: RuntimeCachingRoute): Promise<void> => {
+  const cacheName = route.cacheName ?? DEFAULT_RUNTIME_CACHE_NAME;
+  const body = await response.blob();
+  await (await caches.open(cacheName)).put(request, new Response(body, response));
+  await postEvent('CACHE_UPDATED', { cacheName, url: request.url });
+
+  //Without the metadata the entry is still cached, it just does not expire.
+  try {
+    await recordCacheEntry(cacheName, request.url, body.size);
+    await enforceCacheLimits(cacheName, route);
+    await relieveStoragePressure();
+  } catch {
+    //IndexedDB is not available, e.g. in some private browsing modes.
+  }
+};
+
+/**
+ * Fetches a request. Navigations use the navigation preload response, which the browser
+ * requests while the worker starts up, unless the preload is for the app shell content.
+ */
+const fetchFromNetwork = async (request: Request, event: FetchEvent): Promise<Response> => {
+  if (request.mode === 'navigate' && !appShell) {
+    const preloadResponse: Response | undefined = await event.preloadResponse;
+    if (preloadResponse) {
+      return preloadResponse;
+    }
+  }
+
+  return fetch(request);
+};
+
+/**
+ * Fetches a request and stores a copy of a complete response in the cache of the route. Other
+ * successful responses, e.g. 206 Partial Content for a Range request, would be served in place
+ * of the full content.
+ */
+const fetchAndCache = async (request: Request, route: RuntimeCachingRoute, event: FetchEvent): Promise<Response> => {
+  const response = await fetchFromNetwork(request, event);
+
+  if (response.status === HttpOk) {
+    event.waitUntil(putCache(request, response.clone(), route));
+  }
+
+  return response;
+};
+
+/**
+ * Removes the weak prefix of an ETag, a weak and a strong ETag for the same content match.
+ */
+const opaqueTag = (etag: string): string => etag.replace(/^W\//, '');
+
+/**
+ * Hashes a response body.
+ */
+const hashBody = async (response: Response): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await response.arrayBuffer());
+
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Checks whether a revalidated response differs from the cached one, by ETag if both have one,
+ * otherwise by body hash. Pages only reference hashed asset URLs, so a deployment that changes an
+ * asset changes the HTML too.
+ */
+const isContentUpdated = async (cached: Response, revalidated: Response): Promise<boolean> => {
+  const cachedETag = cached.headers.get('ETag');
+  const revalidatedETag = revalidated.headers.get('ETag');
+  if (cachedETag && revalidatedETag) {
+    return opaqueTag(cachedETag) !== opaqueTag(revalidatedETag);
+  }
+
+  const [cachedHash, revalidatedHash] = await Promise.all([hashBody(cached), hashBody(revalidated)]);
+
+  return cachedHash !== revalidatedHash;
+};
+
+/**
+ * Waits for the revalidated response and posts CONTENT_UPDATED to the pages showing the URL when
+ * it differs from the cached response they were served.
+ */
+const notifyIfUpdated = async (
+  request: Request,
+  cached: Response,
+  network: Promise<Response>,
+  route: RuntimeCachingRoute,
+  event: FetchEvent
+): Promise<void> => {
+  const revalidated = await network;
+  if (revalidated.status !== HttpOk || !await isContentUpdated(cached, revalidated.clone())) {
+    return;
+  }
+
+  //A navigation creates a new page, which may not exist yet when the request starts.
+  const { href } = new URL(request.url);
+  await postEvent('CONTENT_UPDATED', { cacheName: route.cacheName ?? DEFAULT_RUNTIME_CACHE_NAME, url: href }, client => {
+    return client.id === event.clientId || client.id === event.resultingClientId || client.url.split('#')[0] === href;
+  });
+};
+
+const cacheFirst: StrategyHandler = async (request, route, event) => {
+  return await matchCache(request, route, event) ?? fetchAndCache(request, route, event);
+};
+
+const networkFirst: StrategyHandler = async (request, route, event) => {
+  const network = fetchAndCache(request, route, event);
+  event.waitUntil(network.catch(() => null));
+
+  //Without a timeout, only a failed request falls back to the cache.
+  const timeout = new Promise<null>(resolve => {
+    if (route.networkTimeoutSeconds) {
+      setTimeout(() => resolve(null), route.networkTimeoutSeconds * SECOND_IN_MILLISECONDS);
+    }
+  });
+
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) {
+      return response;
+    }
+  } catch {
+    //Offline, try the cache.
+  }
+
+  //Keep waiting for a slow network if nothing is cached.
+  return await matchCache(request, route, event) ?? network;
+};
+
+const staleWhileRevalidate: StrategyHandler = async (request, route, event) => {
+  const network = fetchAndCache(request, route, event);
+  const cached = await matchCache(request, route, event);
+
+  //The page was served from the cache, tell it when the revalidated version differs.
+  const revalidation = cached && route.notifyOnUpdate
+    ? notifyIfUpdated(request, cached.clone(), network, route, event)
+    : network;
+  event.waitUntil(revalidation.catch(() => null));
+
+  return cached ?? network;
+};
+
+const networkOnly: StrategyHandler = (request, _route, event) => fetchFromNetwork(request, event);
+
+const cacheOnly: StrategyHandler = async (request, route, event) => {
+  const response = await matchCache(request, route, event);
+  if (!response) {
+    throw new Error(`No cached response for ${request.url}`);
+  }
+
+  return response;
+};
+
+/**
+ * Handlers of the caching strategies.
+ */
+const strategies: { [strategy in CachingStrategy]: StrategyHandler } = {
+  'cache-first': cacheFirst,
+  'network-first': networkFirst,
+  'stale-while-revalidate': staleWhileRevalidate,
+  'network-only': networkOnly,
+  'cache-only': cacheOnly
+};
+
+/**
+ * Answers a request with the strategy of its route.
+ */
+export const handleRoute = (request: Request, route: RuntimeCachingRoute, event: FetchEvent): Promise<Response> => {
+  return strategies[route.strategy](request, route, event);
+};
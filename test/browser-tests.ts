@@ -217,6 +217,337 @@ describe('Asset Hashing Tests', () => {
 	});
 
 
+	test('Subresource Integrity digests match the served scripts and stylesheets', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		const pages = ['/', '/another-page', '/directory/'];
+		const mismatches: { page: string, url: string, expected: string, actual: string }[] = [];
+		let checkedCount = 0;
+
+		for (const pagePath of pages) {
+			await page.goto(new URL(pagePath, baseUrl).toString());
+
+			//Compute the digest of every resource with an integrity attribute in the page context.
+			const results = await page.evaluate(async () => {
+				const toBase64 = (buffer: ArrayBuffer): string => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+				const elements = Array.from(document.querySelectorAll('script[integrity], link[integrity]'));
+
+				return Promise.all(elements.map(async el => {
+					const url = el.getAttribute('src') ?? el.getAttribute('href') ?? '';
+					const expected = el.getAttribute('integrity') ?? '';
+					const response = await fetch(url, { cache: 'no-store' });
+					const digest = await crypto.subtle.digest('SHA-384', await response.arrayBuffer());
+					return { url, expected, actual: `sha384-${toBase64(digest)}` };
+				}));
+			});
+
+			for (const result of results) {
+				checkedCount++;
+				if (!result.expected.split(/\s+/).includes(result.actual)) {
+					mismatches.push({ page: pagePath, ...result });
+					logger.warn(`Integrity mismatch for ${result.url} on ${pagePath}: expected ${result.expected}, got ${result.actual}`);
+				}
+			}
+		}
+
+		if (mismatches.length > 0) {
+			console.table(mismatches);
+		}
+
+		expect(checkedCount, 'No integrity attributes found').toBeGreaterThan(0);
+		expect(mismatches, `Found ${mismatches.length} integrity mismatches`).toHaveLength(0);
+	});
+
+	test('Service worker claims the page on the first visit without a reload', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		let navigationCount = 0;
+		page.on('framenavigated', frame => {
+			if (frame === page?.mainFrame()) {
+				navigationCount++;
+			}
+		});
+
+		await page.goto(baseUrl);
+
+		const controllerUrl = await page.evaluate(async () => {
+			await navigator.serviceWorker.ready;
+			if (!navigator.serviceWorker.controller) {
+				await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+			}
+
+			return navigator.serviceWorker.controller?.scriptURL ?? '';
+		});
+
+		expect(new URL(controllerUrl).pathname).toBe('/service-worker.js');
+		expect(navigationCount, 'The page reloaded when the first worker took control').toBe(1);
+	});
+
+	test('Navigation timing with and without the service worker, using navigation preload', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		const currentPage = page;
+		const pageUrl = new URL('/another-page', baseUrl).toString();
+		const measureNavigation = async (): Promise<{ duration: number, responseStart: number, workerStart: number }> => {
+			await currentPage.goto(pageUrl);
+			return currentPage.evaluate(() => {
+				const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+				return {
+					duration: navigation.duration,
+					responseStart: navigation.responseStart - navigation.startTime,
+					workerStart: navigation.workerStart
+				};
+			});
+		};
+
+		//The first visit is not controlled, it installs the worker.
+		const withoutWorker = await measureNavigation();
+		const preloadState = await page.evaluate(async () => {
+			const registration = await navigator.serviceWorker.ready;
+			if (!navigator.serviceWorker.controller) {
+				await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+			}
+
+			return registration.navigationPreload.getState();
+		});
+		const withWorker = await measureNavigation();
+
+		logger.info(`Navigation without worker: ${withoutWorker.duration.toFixed(1)} ms, response start ${withoutWorker.responseStart.toFixed(1)} ms.`);
+		logger.info(`Navigation with worker: ${withWorker.duration.toFixed(1)} ms, response start ${withWorker.responseStart.toFixed(1)} ms.`);
+
+		expect(preloadState.enabled, 'Navigation preload is not enabled').toBe(true);
+		expect(withoutWorker.workerStart).toBe(0);
+		expect(withWorker.workerStart, 'The navigation did not go through the worker').toBeGreaterThan(0);
+		expect(await page.title()).toBe('Anotest test page');
+	});
+
+	test('Service worker records runtime cache entries for expiration', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		await page.goto(baseUrl);
+
+		//Wait until the worker controls the page, so that the next requests go through its routes.
+		const entries = await page.evaluate(async () => {
+			await navigator.serviceWorker.ready;
+			if (!navigator.serviceWorker.controller) {
+				await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+			}
+
+			//Precached files are served from the precache, pages go through the network-first route.
+			const response = await fetch('/another-page', { headers: { Accept: 'text/html' } });
+			await response.text();
+
+			//The metadata is written after the response, poll for it.
+			for (let attempt = 0; attempt < 20; attempt++) {
+				const records = await new Promise<{ cacheName: string, url: string, size: number }[]>((resolve, reject) => {
+					const request = indexedDB.open('sw-cache-metadata');
+					request.onerror = () => reject(request.error);
+					request.onsuccess = () => {
+						const database = request.result;
+						if (!database.objectStoreNames.contains('entries')) {
+							database.close();
+							resolve([]);
+							return;
+						}
+
+						const getAll = database.transaction('entries', 'readonly').objectStore('entries').getAll();
+						getAll.onsuccess = () => {
+							database.close();
+							resolve(getAll.result);
+						};
+						getAll.onerror = () => reject(getAll.error);
+					};
+				});
+
+				if (records.length > 0) {
+					return records;
+				}
+
+				await new Promise(resolve => setTimeout(resolve, 100));
+			}
+
+			return [];
+		});
+
+		const pageEntry = entries.find(entry => new URL(entry.url).pathname === '/another-page');
+		expect(pageEntry, 'No metadata recorded for /another-page').toBeDefined();
+		expect(pageEntry?.cacheName).toBe('pages');
+		expect(pageEntry?.size).toBeGreaterThan(0);
+	});
+
+	test('Service worker serves the offline page with the cached pages', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		await page.goto(baseUrl);
+		await page.evaluate(async () => {
+			await navigator.serviceWorker.ready;
+			if (!navigator.serviceWorker.controller) {
+				await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+			}
+		});
+
+		await page.context().setOffline(true);
+		try {
+			await page.goto(new URL('/not-cached', baseUrl).toString());
+			await page.waitForSelector('#cached-pages:not([hidden]) a');
+
+			const links = await page.$$eval('#cached-pages a', anchors => anchors.map(anchor => anchor.getAttribute('href')));
+
+			expect(await page.title()).toBe('You are offline');
+			expect(links).toContain('/another-page');
+			expect(links).not.toContain('/not-cached');
+		} finally {
+			await page.context().setOffline(false);
+		}
+	});
+
+	test('Service worker answers Range requests for saved media from the cache', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		await page.goto(baseUrl);
+		const responses = await page.evaluate(async () => {
+			await navigator.serviceWorker.ready;
+			if (!navigator.serviceWorker.controller) {
+				await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+			}
+
+			//Store the media the way saving it for offline use does, the build has no media to download.
+			const content = new Uint8Array(16).map((_, index) => index);
+			const cache = await caches.open('media');
+			await cache.put(new URL('/saved-media.mp4', location.origin).href, new Response(content, { headers: { 'Content-Type': 'video/mp4' } }));
+
+			try {
+				const partial = await fetch('/saved-media.mp4', { headers: { Range: 'bytes=2-5' } });
+				const unsatisfiable = await fetch('/saved-media.mp4', { headers: { Range: 'bytes=100-' } });
+
+				return {
+					partial: {
+						status: partial.status,
+						contentRange: partial.headers.get('Content-Range'),
+						body: [...new Uint8Array(await partial.arrayBuffer())]
+					},
+					unsatisfiable: {
+						status: unsatisfiable.status,
+						contentRange: unsatisfiable.headers.get('Content-Range')
+					}
+				};
+			} finally {
+				await cache.delete(new URL('/saved-media.mp4', location.origin).href);
+			}
+		});
+
+		expect(responses.partial.status).toBe(206);
+		expect(responses.partial.contentRange).toBe('bytes 2-5/16');
+		expect(responses.partial.body).toEqual([2, 3, 4, 5]);
+		expect(responses.unsatisfiable.status).toBe(416);
+		expect(responses.unsatisfiable.contentRange).toBe('bytes */16');
+	});
+
+	//Needs a build and a test run with SERVICE_WORKER_PAGE_STRATEGY=stale-while-revalidate.
+	test.skipIf(process.env.SERVICE_WORKER_PAGE_STRATEGY !== 'stale-while-revalidate')(
+		'Service worker serves cached pages and reports updated content in stale-while-revalidate mode',
+		async () => {
+			if (!page) {
+				throw new Error('Page is not initialized');
+			}
+
+			await page.goto(baseUrl);
+			const result = await page.evaluate(async () => {
+				await navigator.serviceWorker.ready;
+				if (!navigator.serviceWorker.controller) {
+					await new Promise(resolve => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+				}
+
+				const contentUpdated = new Promise<{ cacheName: string, url: string }>(resolve => {
+					navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+						if (event.data?.kind === 'event' && event.data.type === 'CONTENT_UPDATED') {
+							resolve(event.data.detail);
+						}
+					});
+				});
+				navigator.serviceWorker.startMessages();
+
+				//A cached version that differs from the deployed page.
+				const pageUrl = new URL('/another-page', location.origin).href;
+				const cache = await caches.open('pages');
+				await cache.put(pageUrl, new Response('<p>Previous deployment</p>', { headers: { 'Content-Type': 'text/html' } }));
+
+				const response = await fetch('/another-page', { headers: { Accept: 'text/html' } });
+
+				return { body: await response.text(), detail: await contentUpdated };
+			});
+
+			expect(result.body).toBe('<p>Previous deployment</p>');
+			expect(result.detail).toEqual({ cacheName: 'pages', url: new URL('/another-page', baseUrl).href });
+		}
+	);
+
+	test('Service worker answers protocol requests with their correlation id', async () => {
+		if (!page) {
+			throw new Error('Page is not initialized');
+		}
+
+		await page.goto(baseUrl);
+		const responses = await page.evaluate(async () => {
+			const registration = await navigator.serviceWorker.ready;
+			const worker = navigator.serviceWorker.controller ?? registration.active;
+			const cacheUpdates: string[] = [];
+
+			navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+				if (event.data?.kind === 'event' && event.data.type === 'CACHE_UPDATED') {
+					cacheUpdates.push(event.data.detail.url);
+				}
+			});
+			navigator.serviceWorker.startMessages();
+
+			//The same messages the page client sends, pages do not bundle it.
+			const send = (id: string, type: string, params: unknown) => new Promise<{ id: string, ok: boolean, result: unknown }>(resolve => {
+				const handleMessage = (event: MessageEvent) => {
+					if (event.data?.kind === 'response' && event.data.id === id) {
+						navigator.serviceWorker.removeEventListener('message', handleMessage);
+						resolve(event.data);
+					}
+				};
+				navigator.serviceWorker.addEventListener('message', handleMessage);
+				worker?.postMessage({ kind: 'request', id, type, params });
+			});
+
+			const version = await send('version', 'GET_CACHE_VERSION', null);
+			const cached = await send('cache', 'CACHE_URLS', { urls: ['/another-page', 'https://example.com/'] });
+			const listed = await send('list', 'LIST_CACHED_URLS', { cacheName: 'offline-reading' });
+			const cleared = await send('clear', 'CLEAR_CACHES', { cacheNames: ['offline-reading'] });
+
+			return { version, cached, listed, cleared, cacheUpdates };
+		});
+
+		const version = responses.version.result as { precacheName: string, cacheNames: string[] };
+		const cached = responses.cached.result as { cached: string[], failed: { url: string }[] };
+		const listed = responses.listed.result as { url: string, size: number }[];
+		const anotherPageUrl = new URL('/another-page', baseUrl).href;
+
+		expect(responses.version.ok).toBe(true);
+		expect(version.precacheName).toMatch(/^precache-/);
+		expect(version.cacheNames).toContain(version.precacheName);
+		expect(cached.cached).toEqual([anotherPageUrl]);
+		expect(cached.failed.map(failure => failure.url)).toEqual(['https://example.com/']);
+		expect(listed.find(entry => entry.url === anotherPageUrl)?.size).toBeGreaterThan(0);
+		expect(responses.cleared.result).toEqual(['offline-reading']);
+		expect(responses.cacheUpdates).toContain(anotherPageUrl);
+	});
+
+
 	test('Check all resources: broken links, proper cache busting, and service worker', async () => {
 		if (!page) {
 			throw new Error('Page is not initialized');
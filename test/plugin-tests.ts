@@ -0,0 +1,531 @@
+import * as cheerio from "cheerio";
+import {
+	type AssetConfig,
+	type ReferenceProblem,
+	createBuildReport,
+	createContentSecurityPolicyManifest,
+	createReferenceExtractorRegistry,
+	createSitemapEntries,
+	findAssetsInString,
+	formatSiteUrl,
+	getDocumentBaseUrl,
+	getSiteRootUrl,
+	injectServiceWorkerManifest,
+	mapReferenceUrls,
+	recordReferenceProblem,
+	reportReferenceProblems,
+	resolveSitePath,
+	updateCssReferences,
+	updateResponsiveImages,
+	updateUrl
+} from "../post-build-assets-processor-plugin";
+import { type Logger, createLogger } from "vite";
+import { afterEach, describe, expect, it } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+
+const assetConfig: AssetConfig = {
+	srcDir: "src",
+	outputDir: "dist",
+	assetsSubdir: "assets",
+	siteBaseUrl: "https://test.com"
+};
+
+/**
+ * A project in a temporary directory with a source and a client output directory.
+ */
+interface TestProject {
+	srcDir: string;
+	clientDir: string;
+	assetsDir: string;
+	/** Writes a file relative to the project root, creating its directory. */
+	write: (filePath: string, content: string | Buffer) => void;
+	/** Reads a file relative to the project root. */
+	read: (filePath: string) => string;
+}
+
+let projectRoot = "";
+
+const createTestProject = (): TestProject => {
+	projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "post-build-plugin-"));
+
+	const write = (filePath: string, content: string | Buffer): void => {
+		fs.mkdirSync(path.dirname(path.join(projectRoot, filePath)), { recursive: true });
+		fs.writeFileSync(path.join(projectRoot, filePath), content);
+	};
+
+	return {
+		srcDir: path.join(projectRoot, "src"),
+		clientDir: path.join(projectRoot, "dist/client"),
+		assetsDir: path.join(projectRoot, "dist/client/assets"),
+		write,
+		read: filePath => fs.readFileSync(path.join(projectRoot, filePath), "utf-8")
+	};
+};
+
+const logger: Logger = createLogger("silent");
+
+/**
+ * Creates a solid grey RGB PNG image.
+ */
+const createPng = (width: number, height: number): Buffer => {
+	const chunk = (type: string, data: Buffer): Buffer => {
+		const length = Buffer.alloc(4);
+		length.writeUInt32BE(data.length);
+		const crc = Buffer.alloc(4);
+		crc.writeUInt32BE(zlib.crc32(Buffer.concat([Buffer.from(type), data])));
+		return Buffer.concat([length, Buffer.from(type), data, crc]);
+	};
+
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header.set([8, 2, 0, 0, 0], 8);
+
+	//Each row starts with filter type 0.
+	const rows = Buffer.alloc((width * 3 + 1) * height, 0x80);
+	for (let row = 0; row < height; row++) {
+		rows[row * (width * 3 + 1)] = 0;
+	}
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		chunk("IHDR", header),
+		chunk("IDAT", zlib.deflateSync(rows)),
+		chunk("IEND", Buffer.alloc(0))
+	]);
+};
+
+afterEach(() => {
+	fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("CSS reference tests", () => {
+	it("renames rewritten hashed stylesheets and updates their references", () => {
+		const project = createTestProject();
+		project.write("src/images/pattern.png", "png");
+		project.write("dist/client/assets/base-AbCd1234.css", "body { background: url(/images/pattern.png); }");
+		project.write("dist/client/index.html", '<html><head><link rel="stylesheet" href="/assets/base-AbCd1234.css"></head></html>');
+
+		const mappings = updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, assetConfig, { "base.css": "assets/base-AbCd1234.css" }, logger);
+
+		const renamedPath = mappings["base.css"];
+		expect(renamedPath).toMatch(/^assets\/base-[0-9a-f]{8}\.css$/);
+		expect(renamedPath).not.toBe("assets/base-AbCd1234.css");
+		expect(fs.existsSync(path.join(project.assetsDir, "base-AbCd1234.css"))).toBe(false);
+		expect(project.read(`dist/client/${renamedPath}`)).toMatch(/url\(\/assets\/images\/pattern-[0-9a-f]{8}\.png\)/);
+		expect(project.read("dist/client/index.html")).toContain(`href="/${renamedPath}"`);
+	});
+
+	it("renames stylesheets whose imports were renamed", () => {
+		const project = createTestProject();
+		project.write("src/images/pattern.png", "png");
+		project.write("dist/client/assets/theme-AbCd1234.css", "body { background: url(/images/pattern.png); }");
+		project.write("dist/client/assets/main-EfGh5678.css", '@import "theme-AbCd1234.css";');
+
+		const mappings = updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, assetConfig, { "main.css": "assets/main-EfGh5678.css" }, logger);
+
+		expect(mappings["main.css"]).not.toBe("assets/main-EfGh5678.css");
+		expect(project.read(`dist/client/${mappings["main.css"]}`)).toMatch(/@import "theme-[0-9a-f]{8}\.css";/);
+	});
+
+	it("keeps relative references relative to the stylesheet", () => {
+		const project = createTestProject();
+		project.write("src/images/pattern.png", "png");
+		project.write("dist/client/assets/base-AbCd1234.css", "body { background: url(../images/pattern.png?v=1); }");
+
+		const mappings = updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, assetConfig, { "base.css": "assets/base-AbCd1234.css" }, logger);
+
+		expect(project.read(`dist/client/${mappings["base.css"]}`)).toMatch(/url\(images\/pattern-[0-9a-f]{8}\.png\?v=1\)/);
+	});
+
+	it("writes references of sites served from a sub-path below that path", () => {
+		const project = createTestProject();
+		project.write("src/images/pattern.png", "png");
+		project.write("dist/client/assets/base.css", "a { background: url(/blog/images/pattern.png); } b { background: url(https://test.com/blog/images/pattern.png); }");
+
+		updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, { ...assetConfig, siteBaseUrl: "https://test.com/blog" }, {}, logger);
+
+		const css = project.read("dist/client/assets/base.css");
+		expect(css).toMatch(/a \{ background: url\(\/blog\/assets\/images\/pattern-[0-9a-f]{8}\.png\); \}/);
+		expect(css).toMatch(/b \{ background: url\(https:\/\/test\.com\/blog\/assets\/images\/pattern-[0-9a-f]{8}\.png\); \}/);
+	});
+
+	it("resolves inline styles against the page and its base element", () => {
+		const project = createTestProject();
+		project.write("src/directory/img/a.png", "png");
+		project.write("src/sub/img/b.png", "png");
+		project.write("dist/client/directory/page.html", '<html><body><div style="background: url(img/a.png)"></div></body></html>');
+		project.write("dist/client/directory/based.html", '<html><head><base href="/sub/"></head><body><style>p { background: url(img/b.png); }</style></body></html>');
+
+		const mappings = updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, assetConfig, {}, logger);
+
+		expect(mappings["directory/img/a.png"]).toMatch(/^assets\/directory\/img\/a-[0-9a-f]{8}\.png$/);
+		expect(mappings["sub/img/b.png"]).toMatch(/^assets\/sub\/img\/b-[0-9a-f]{8}\.png$/);
+		expect(project.read("dist/client/directory/page.html")).toContain(`url(../${mappings["directory/img/a.png"]})`);
+		expect(project.read("dist/client/directory/based.html")).toContain(`url(../${mappings["sub/img/b.png"]})`);
+	});
+
+	it("leaves references with malformed percent-encoding as written", () => {
+		const project = createTestProject();
+		project.write("dist/client/assets/base-AbCd1234.css", "body { background: url(/images/100%.png); }");
+
+		expect(() => updateCssReferences(project.clientDir, project.assetsDir, project.srcDir, assetConfig, {}, logger)).not.toThrow();
+		expect(project.read("dist/client/assets/base-AbCd1234.css")).toBe("body { background: url(/images/100%.png); }");
+	});
+});
+
+describe("Responsive image tests", () => {
+	const options = { widths: [16], formats: ["webp" as const] };
+
+	it("wraps raster images in a picture with variant sources and intrinsic dimensions", async () => {
+		const project = createTestProject();
+		project.write("dist/client/assets/images/photo-AbCd1234.png", createPng(32, 16));
+		project.write("dist/client/index.html", '<html><body><img src="/assets/images/photo-AbCd1234.png" alt="Photo"></body></html>');
+
+		const mappings = await updateResponsiveImages(project.clientDir, process.cwd(), assetConfig, { "images/photo.png": "assets/images/photo-AbCd1234.png" }, options, logger);
+
+		expect(mappings["images/photo.png"]).toBe("assets/images/photo-AbCd1234.png");
+		expect(mappings["images/photo-16w.webp"]).toMatch(/^assets\/images\/photo-16w-[0-9a-f]{8}\.webp$/);
+		expect(mappings["images/photo-32w.webp"]).toMatch(/^assets\/images\/photo-32w-[0-9a-f]{8}\.webp$/);
+		expect(fs.existsSync(path.join(project.clientDir, mappings["images/photo-16w.webp"]))).toBe(true);
+
+		expect(project.read("dist/client/index.html")).toContain(
+			`<picture><source type="image/webp" srcset="/${mappings["images/photo-16w.webp"]} 16w, /${mappings["images/photo-32w.webp"]} 32w" sizes="100vw">`
+			+ '<img src="/assets/images/photo-AbCd1234.png" alt="Photo" width="32" height="16"></picture>'
+		);
+		expect("ImageData" in globalThis).toBe(false);
+	});
+
+	it("writes variant URLs in the style of the source image URL", async () => {
+		const project = createTestProject();
+		project.write("dist/client/assets/images/photo-AbCd1234.png", createPng(32, 16));
+		project.write(
+			"dist/client/directory/index.html",
+			'<html><body><img src="../assets/images/photo-AbCd1234.png" alt="Relative">'
+			+ '<img src="https://test.com/blog/assets/images/photo-AbCd1234.png" alt="Absolute"></body></html>'
+		);
+
+		const blogConfig = { ...assetConfig, siteBaseUrl: "https://test.com/blog" };
+		const mappings = await updateResponsiveImages(project.clientDir, process.cwd(), blogConfig, { "images/photo.png": "assets/images/photo-AbCd1234.png" }, options, logger);
+		const html = project.read("dist/client/directory/index.html");
+
+		expect(html).toContain(`srcset="../${mappings["images/photo-16w.webp"]} 16w, ../${mappings["images/photo-32w.webp"]} 32w"`);
+		expect(html).toContain(`srcset="https://test.com/blog/${mappings["images/photo-16w.webp"]} 16w, https://test.com/blog/${mappings["images/photo-32w.webp"]} 32w"`);
+	});
+
+	it("adds variant sources in front of the raster sources of a picture", async () => {
+		const project = createTestProject();
+		project.write("dist/client/assets/images/wide-AbCd1234.png", createPng(32, 16));
+		project.write("dist/client/assets/images/narrow-EfGh5678.png", createPng(16, 16));
+		project.write(
+			"dist/client/index.html",
+			'<html><body><picture><source media="(min-width: 800px)" srcset="/assets/images/wide-AbCd1234.png">'
+			+ '<img src="/assets/images/narrow-EfGh5678.png" alt="Photo" sizes="50vw"></picture></body></html>'
+		);
+
+		const assetMappings = { "images/wide.png": "assets/images/wide-AbCd1234.png", "images/narrow.png": "assets/images/narrow-EfGh5678.png" };
+		const mappings = await updateResponsiveImages(project.clientDir, process.cwd(), assetConfig, assetMappings, options, logger);
+		const html = project.read("dist/client/index.html");
+
+		expect(mappings["images/wide-32w.webp"]).toMatch(/^assets\/images\/wide-32w-[0-9a-f]{8}\.webp$/);
+		expect(mappings["images/narrow-16w.webp"]).toMatch(/^assets\/images\/narrow-16w-[0-9a-f]{8}\.webp$/);
+		expect(html).toContain(
+			`<picture><source type="image/webp" media="(min-width: 800px)" srcset="/${mappings["images/wide-16w.webp"]} 16w, /${mappings["images/wide-32w.webp"]} 32w" sizes="50vw">`
+			+ '<source media="(min-width: 800px)" srcset="/assets/images/wide-AbCd1234.png">'
+			+ `<source type="image/webp" srcset="/${mappings["images/narrow-16w.webp"]} 16w" sizes="50vw">`
+			+ '<img src="/assets/images/narrow-EfGh5678.png" alt="Photo" sizes="50vw" width="16" height="16"></picture>'
+		);
+	});
+});
+
+describe("Reference extractor tests", () => {
+	it("keeps the extractors of the options to their registry", () => {
+		const extractor = { selector: "div[data-background]", attribute: "data-background" };
+		const registry = createReferenceExtractorRegistry([extractor]);
+
+		expect(registry.get("div[data-background] @data-background")).toBe(extractor);
+		expect(registry.get("img[src] @src")).toEqual({ selector: "img[src]", attribute: "src" });
+		expect(createReferenceExtractorRegistry().has("div[data-background] @data-background")).toBe(false);
+	});
+
+	it("replaces a default extractor with the same selector and attribute", () => {
+		const extractor = { selector: "img[srcset]", attribute: "srcset", type: "url" as const };
+
+		expect(createReferenceExtractorRegistry([extractor]).get("img[srcset] @srcset")).toBe(extractor);
+		expect(createReferenceExtractorRegistry().get("img[srcset] @srcset")?.type).toBe("srcset");
+	});
+
+	it("keeps data: URLs of a srcset whole", () => {
+		const urls: string[] = [];
+		const srcset = mapReferenceUrls("data:image/png;base64,AAAA 1x, /images/photo.png 2x", "srcset", url => {
+			urls.push(url);
+			return url.startsWith("/") ? "/assets/photo-AbCd1234.png" : url;
+		});
+
+		expect(urls).toEqual(["data:image/png;base64,AAAA", "/images/photo.png"]);
+		expect(srcset).toBe("data:image/png;base64,AAAA 1x, /assets/photo-AbCd1234.png 2x");
+	});
+});
+
+describe("Build report tests", () => {
+	it("counts one candidate per image, skips JSON-LD and reports exceeded budgets", () => {
+		const project = createTestProject();
+		project.write("dist/client/assets/photo-small-AbCd1234.webp", Buffer.alloc(100));
+		project.write("dist/client/assets/photo-large-AbCd1234.webp", Buffer.alloc(200));
+		project.write("dist/client/assets/photo-AbCd1234.png", Buffer.alloc(300));
+		project.write("dist/client/assets/logo-AbCd1234.png", Buffer.alloc(40));
+		project.write("dist/client/assets/banner-AbCd1234.png", Buffer.alloc(500));
+		project.write(
+			"dist/client/index.html",
+			'<html><head><script type="application/ld+json">{"image": "/assets/banner-AbCd1234.png"}</script></head><body>'
+			+ '<picture><source type="image/webp" srcset="/assets/photo-small-AbCd1234.webp 100w, /assets/photo-large-AbCd1234.webp 200w">'
+			+ '<source type="image/png" srcset="/assets/photo-AbCd1234.png 200w"><img src="/assets/photo-AbCd1234.png" alt="Photo"></picture>'
+			+ '<img src="/assets/logo-AbCd1234.png" alt="Logo"></body></html>'
+		);
+
+		const report = createBuildReport(project.clientDir, ["index"], assetConfig, createReferenceExtractorRegistry(), {
+			pageBudgets: { image: 200 },
+			assetBudgets: { image: 150 }
+		});
+
+		const [page] = report.pages;
+		expect(page.dependencies.map(dependency => dependency.path)).toEqual([
+			"index.html",
+			"assets/photo-large-AbCd1234.webp",
+			"assets/logo-AbCd1234.png"
+		]);
+		expect(page.totals.image).toEqual({ raw: 240, gzip: 240, brotli: 240 });
+		expect(page.totals.total.raw).toBe(240 + report.files["index.html"].sizes.raw);
+		expect(report.violations).toEqual([
+			{ target: "index", scope: "page", type: "image", compression: "gzip", size: 240, budget: 200 },
+			{ target: "assets/photo-large-AbCd1234.webp", scope: "asset", type: "image", compression: "gzip", size: 200, budget: 150 }
+		]);
+	});
+});
+
+describe("URL resolution tests", () => {
+	const siteRootUrl = getSiteRootUrl("https://test.com");
+	const pageBaseUrl = getDocumentBaseUrl(cheerio.load("<html><head></head></html>"), "directory/index.html", siteRootUrl);
+	const baseElementUrl = getDocumentBaseUrl(cheerio.load('<html><head><base href="/sub/"></head></html>'), "directory/index.html", siteRootUrl);
+
+	it("resolves the document base URL against the page URL", () => {
+		expect(pageBaseUrl.href).toBe("https://test.com/directory/index.html");
+		expect(baseElementUrl.href).toBe("https://test.com/sub/");
+	});
+
+	it("resolves references from a page in a directory", () => {
+		expect(resolveSitePath("images/logo.svg", pageBaseUrl, siteRootUrl)).toBe("directory/images/logo.svg");
+		expect(resolveSitePath("../images/logo.svg", pageBaseUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("/images/logo.svg", pageBaseUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("https://test.com/images/logo.svg", pageBaseUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("//test.com/images/logo.svg", pageBaseUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("images/logo.svg?v=1#icon", pageBaseUrl, siteRootUrl)).toBe("directory/images/logo.svg");
+		expect(resolveSitePath("images/my%20logo.svg", pageBaseUrl, siteRootUrl)).toBe("directory/images/my logo.svg");
+	});
+
+	it("resolves relative references against the base element", () => {
+		expect(resolveSitePath("images/logo.svg", baseElementUrl, siteRootUrl)).toBe("sub/images/logo.svg");
+		expect(resolveSitePath("../images/logo.svg", baseElementUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("/images/logo.svg", baseElementUrl, siteRootUrl)).toBe("images/logo.svg");
+		expect(resolveSitePath("//test.com/images/logo.svg", baseElementUrl, siteRootUrl)).toBe("images/logo.svg");
+	});
+
+	it("does not resolve references outside of the site", () => {
+		expect(resolveSitePath("https://cdn.test.com/images/logo.svg", pageBaseUrl, siteRootUrl)).toBeNull();
+		expect(resolveSitePath("//cdn.test.com/images/logo.svg", pageBaseUrl, siteRootUrl)).toBeNull();
+		expect(resolveSitePath("data:image/png;base64,AAAA", pageBaseUrl, siteRootUrl)).toBeNull();
+		expect(resolveSitePath("/images/logo.svg", new URL("https://test.com/blog/index.html"), getSiteRootUrl("https://test.com/blog"))).toBeNull();
+		expect(resolveSitePath("/images/100%.png", pageBaseUrl, siteRootUrl)).toBeNull();
+	});
+
+	it("formats site URLs in the style of the URL they replace", () => {
+		const sitePath = "assets/logo-AbCd1234.svg";
+
+		expect(formatSiteUrl(sitePath, "absolute", pageBaseUrl, siteRootUrl)).toBe("https://test.com/assets/logo-AbCd1234.svg");
+		expect(formatSiteUrl(sitePath, "scheme-relative", pageBaseUrl, siteRootUrl)).toBe("//test.com/assets/logo-AbCd1234.svg");
+		expect(formatSiteUrl(sitePath, "root-relative", pageBaseUrl, siteRootUrl)).toBe("/assets/logo-AbCd1234.svg");
+		expect(formatSiteUrl(sitePath, "relative", pageBaseUrl, siteRootUrl)).toBe("../assets/logo-AbCd1234.svg");
+		expect(formatSiteUrl(sitePath, "relative", new URL("https://test.com/sub/deeper/"), siteRootUrl)).toBe("../../assets/logo-AbCd1234.svg");
+		expect(formatSiteUrl("a:b-AbCd1234.svg", "relative", new URL("https://test.com/index.html"), siteRootUrl)).toBe("./a:b-AbCd1234.svg");
+	});
+
+	it("updates URLs to the hashed paths and keeps their style, query and fragment", () => {
+		const assetMappings = { "images/logo.svg": "assets/images/logo-AbCd1234.svg" };
+		const pageBaseUrls = { source: pageBaseUrl, output: pageBaseUrl };
+
+		expect(updateUrl("../images/logo.svg", pageBaseUrls, assetConfig, assetMappings)).toBe("../assets/images/logo-AbCd1234.svg");
+		expect(updateUrl("/images/logo.svg#icon", pageBaseUrls, assetConfig, assetMappings)).toBe("/assets/images/logo-AbCd1234.svg#icon");
+		expect(updateUrl("https://test.com/images/logo.svg?v=1", pageBaseUrls, assetConfig, assetMappings)).toBe("https://test.com/assets/images/logo-AbCd1234.svg?v=1");
+		expect(updateUrl("//test.com/images/logo.svg", pageBaseUrls, assetConfig, assetMappings)).toBe("//test.com/assets/images/logo-AbCd1234.svg");
+		expect(updateUrl("images/logo.svg", pageBaseUrls, assetConfig, assetMappings)).toBe("images/logo.svg");
+		expect(updateUrl("https://cdn.test.com/images/logo.svg", pageBaseUrls, assetConfig, assetMappings)).toBe("https://cdn.test.com/images/logo.svg");
+	});
+
+	it("updates relative URLs against the base element and the output location", () => {
+		const assetMappings = { "images/logo.svg": "assets/images/logo-AbCd1234.svg" };
+
+		expect(updateUrl("../images/logo.svg", { source: baseElementUrl, output: baseElementUrl }, assetConfig, assetMappings)).toBe("../assets/images/logo-AbCd1234.svg");
+		expect(updateUrl("../images/logo.svg", { source: pageBaseUrl, output: new URL("https://test.com/about.html") }, assetConfig, assetMappings))
+			.toBe("assets/images/logo-AbCd1234.svg");
+	});
+
+	it("writes sitemap URLs below the site root", () => {
+		const project = createTestProject();
+		project.write("dist/client/index.html", "<html></html>");
+		project.write("dist/client/directory/index.html", "<html></html>");
+
+		const blogConfig = { ...assetConfig, siteBaseUrl: "https://test.com/blog/" };
+		const entries = createSitemapEntries(project.clientDir, project.srcDir, ["index", "directory/index"], "directory", blogConfig, logger);
+
+		expect(entries.map(entry => entry.loc)).toEqual(["https://test.com/blog/", "https://test.com/blog/directory/"]);
+	});
+
+	it("finds the source files of references", () => {
+		const project = createTestProject();
+		project.write("src/images/logo.svg", "<svg></svg>");
+		const logoEntry = { originalPath: "images/logo.svg", fullPath: path.join(project.srcDir, "images/logo.svg") };
+		const findAssets = (url: string, documentBaseUrl: URL) => findAssetsInString(url, "https://test.com", project.srcDir, documentBaseUrl);
+
+		expect(findAssets("../images/logo.svg", pageBaseUrl)).toEqual([logoEntry]);
+		expect(findAssets("/images/logo.svg", pageBaseUrl)).toEqual([logoEntry]);
+		expect(findAssets("https://test.com/images/logo.svg", pageBaseUrl)).toEqual([logoEntry]);
+		expect(findAssets("//test.com/images/logo.svg", pageBaseUrl)).toEqual([logoEntry]);
+		expect(findAssets("../images/logo.svg", baseElementUrl)).toEqual([logoEntry]);
+		expect(findAssets("images/logo.svg", baseElementUrl)).toEqual([{ originalPath: "sub/images/logo.svg", fullPath: logoEntry.fullPath }]);
+		expect(findAssets("https://cdn.test.com/images/logo.svg", pageBaseUrl)).toEqual([]);
+		expect(findAssets("/images/readme.txt", pageBaseUrl)).toEqual([]);
+		expect(findAssets("/logo.svg", pageBaseUrl)).toEqual([]);
+		expect(findAssets("https://test.com/logo.svg", pageBaseUrl)).toEqual([]);
+	});
+});
+
+describe("Reference problem tests", () => {
+	const documentBaseUrl = new URL("https://test.com/directory/index.html");
+
+	//Finds the assets of the references the way the build does and records their problems.
+	const checkReferences = (project: TestProject, urls: string[], allowlist: (string | RegExp)[] = []): ReferenceProblem[] => {
+		const check = { publicDir: path.join(project.srcDir, "public"), allowlist, problems: [] as ReferenceProblem[] };
+
+		urls.forEach(url => {
+			findAssetsInString(url, "https://test.com", project.srcDir, documentBaseUrl, (kind, assetPath, candidates) => {
+				recordReferenceProblem(check, { kind, assetPath, source: "directory/index.html", line: 12, candidates });
+			});
+		});
+
+		return check.problems;
+	};
+
+	const createProblemProject = (): TestProject => {
+		const project = createTestProject();
+		project.write("src/images/logo.svg", "<svg></svg>");
+		project.write("src/icons/light/icon.png", "png");
+		project.write("src/icons/dark/icon.png", "png");
+		project.write("src/public/robots.png", "png");
+		return project;
+	};
+
+	const urls = ["../images/missing.png", "../images/icon.png", "https://test.com/img/logo.svg", "/img/icon.png", "/robots.png", "/images/logo.svg"];
+
+	it("finds unresolved, ambiguous and missing site file references", () => {
+		const project = createProblemProject();
+
+		//Paths from the site root are not looked up by basename.
+		expect(checkReferences(project, urls)).toEqual([
+			{ kind: "unresolved", assetPath: "images/missing.png", source: "directory/index.html", line: 12, candidates: [] },
+			{
+				kind: "ambiguous",
+				assetPath: "images/icon.png",
+				source: "directory/index.html",
+				line: 12,
+				candidates: [path.join(project.srcDir, "icons/dark/icon.png"), path.join(project.srcDir, "icons/light/icon.png")]
+			},
+			{ kind: "missing-site-file", assetPath: "img/logo.svg", source: "directory/index.html", line: 12, candidates: [] },
+			{ kind: "missing-site-file", assetPath: "img/icon.png", source: "directory/index.html", line: 12, candidates: [] }
+		]);
+	});
+
+	it("fails the build in strict mode", () => {
+		const problems = checkReferences(createProblemProject(), urls);
+
+		expect(() => reportReferenceProblems(problems, true, logger)).toThrow(/^PostBuildAssetsProcessorPlugin: Found 4 asset reference problems:/);
+		expect(() => reportReferenceProblems(problems, true, logger)).toThrow("directory/index.html:12: images/missing.png does not match any source file");
+		expect(() => reportReferenceProblems([], true, logger)).not.toThrow();
+	});
+
+	it("logs the problems in warn mode", () => {
+		const problems = checkReferences(createProblemProject(), urls);
+		const warnings: string[] = [];
+		const warnLogger: Logger = { ...logger, warn: message => warnings.push(message) };
+
+		expect(() => reportReferenceProblems(problems, "warn", warnLogger)).not.toThrow();
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toContain("Found 4 asset reference problems:");
+		expect(warnings[0]).toContain("directory/index.html:12: images/icon.png does not exist and its basename matches");
+		expect(warnings[0]).toContain("directory/index.html:12: site URL img/logo.svg points to a file that does not exist");
+		expect(warnings[0]).toContain("directory/index.html:12: site URL img/icon.png points to a file that does not exist");
+	});
+
+	it("does not report allowlisted paths", () => {
+		const project = createProblemProject();
+
+		expect(checkReferences(project, urls, ["/images/missing.png", /icon\.png$/]).map(problem => problem.kind)).toEqual(["missing-site-file"]);
+		expect(() => reportReferenceProblems(checkReferences(project, urls, ["images/missing.png", /icon\.png$/, "img/logo.svg"]), true, logger)).not.toThrow();
+	});
+});
+
+describe("Sitemap tests", () => {
+	it("skips malformed image URLs", () => {
+		const project = createTestProject();
+		project.write(
+			"dist/client/index.html",
+			'<html><head><meta property="og:image" content="http://["></head>'
+			+ '<body><img src="https://test.com:99999/logo.png" alt="Port"><img src="/images/logo.png" alt="Logo"></body></html>'
+		);
+
+		const entries = createSitemapEntries(project.clientDir, project.srcDir, ["index"], "directory", assetConfig, logger);
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0].images).toEqual(["https://test.com/images/logo.png"]);
+	});
+});
+
+describe("Content-Security-Policy tests", () => {
+	it("seeds hashed directives from default-src", () => {
+		const project = createTestProject();
+		project.write("dist/client/index.html", "<html><head><style>p{color:red}</style></head><body><script>run()</script></body></html>");
+
+		const manifest = createContentSecurityPolicyManifest(project.clientDir, { "default-src": ["'self'"] }, logger);
+		const routePolicy = manifest.routes["/index.html"];
+
+		expect(routePolicy).toMatch(/script-src 'self' 'sha256-[^']+'/);
+		expect(routePolicy).toMatch(/style-src 'self' 'sha256-[^']+'/);
+	});
+
+	it("drops 'none' when adding hashes", () => {
+		const project = createTestProject();
+		project.write("dist/client/index.html", "<html><body><script>run()</script></body></html>");
+
+		const manifest = createContentSecurityPolicyManifest(project.clientDir, { "default-src": ["'none'"] }, logger);
+
+		expect(manifest.routes["/index.html"]).toMatch(/script-src 'sha256-[^']+'/);
+		expect(manifest.routes["/index.html"]).toContain("default-src 'none'");
+	});
+});
+
+describe("Service worker tests", () => {
+	it("injects the page strategy into the service worker", () => {
+		const project = createTestProject();
+		project.write(
+			"dist/client/service-worker.js",
+			"const m=self.__PRECACHE_MANIFEST??[];const p=self.__PAGE_STRATEGY??\"network-first\";"
+		);
+
+		const isInjected = injectServiceWorkerManifest(project.clientDir, [], "", "stale-while-revalidate", "service-worker.js", logger);
+
+		expect(isInjected).toBe(true);
+		expect(project.read("dist/client/service-worker.js")).toBe('const m=[]??[];const p="stale-while-revalidate"??"network-first";');
+	});
+});
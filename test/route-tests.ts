@@ -9,12 +9,39 @@ import { describe, expect, it } from "vitest";
 import { createIncomingRequest } from "./incoming-request";
 import worker from "../cloudflare";
 
+//Fetches a URL through the worker and waits for the work it scheduled.
+const fetchThroughWorker = async (url: string, init: RequestInit = {}, workerEnv: Env = env): Promise<Response> => {
+	const request = createIncomingRequest(new Request(url, init));
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, workerEnv, ctx);
+	await waitOnExecutionContext(ctx);
 
+	return response;
+};
+
+//Returns an environment whose asset binding answers a path with the handler, other paths with the
+//assets of the base environment.
+const withAssetOverride = (
+	pathname: string,
+	handler: (request: Request) => Response | Promise<Response>,
+	baseEnv: Env = env
+): Env => {
+	return {
+		...baseEnv,
+		ASSETS: {
+			fetch: async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+				const request = new Request(input, init);
+
+				return new URL(request.url).pathname === pathname ? handler(request) : baseEnv.ASSETS.fetch(request);
+			}
+		}
+	} as Env;
+};
 
 describe("Main page tests", () => {
 	it('responds with HTML that starts with a doctype', async () => {
 
-		const request = createIncomingRequest("http://test.com/index.html");
+		const request = createIncomingRequest("http://test.com/");
 		const ctx = createExecutionContext();
 		const response = await worker.fetch(request, env, ctx);
 		await waitOnExecutionContext(ctx);
@@ -32,13 +59,391 @@ describe("Main page tests", () => {
 
 		const HttpNotFound = 404;
 		expect(response.status).toBe(HttpNotFound);
+		expect(response.headers.get("Content-Type")).toContain("text/html");
+		expect(await response.text()).toContain("<title>Page not found</title>");
+	});
+});
+
+describe("Error page tests", () => {
+	const HttpMovedPermanently = 301;
+	const HttpNotFound = 404;
+	const HttpInternalServerError = 500;
+
+	it("serves the branded 404 page with its policy to navigations", async () => {
+		const response = await fetchThroughWorker("http://test.com/missing/page.json", { headers: { Accept: "text/html" } });
+
+		expect(response.status).toBe(HttpNotFound);
+		expect(response.headers.get("Content-Type")).toContain("text/html");
+		expect(response.headers.get("Content-Security-Policy")).toContain("default-src 'none'");
+		expect(await response.text()).toContain("<title>Page not found</title>");
+	});
+
+	it("does not serve the error and offline pages at their HTML file URLs", async () => {
+		for (const errorPage of ["/404.html", "/500.html"]) {
+			const response = await fetchThroughWorker(`http://test.com${errorPage}`, { headers: { Accept: "text/html" } });
+
+			expect(response.status).toBe(HttpNotFound);
+			expect(await response.text()).toContain("<title>Page not found</title>");
+		}
+
+		const offlineResponse = await fetchThroughWorker("http://test.com/offline.html");
+		expect(offlineResponse.status).toBe(HttpMovedPermanently);
+		expect(offlineResponse.headers.get("Location")).toBe("http://test.com/offline");
+	});
+
+	it("responds to missing JSON with a JSON error", async () => {
+		const response = await fetchThroughWorker("http://test.com/missing.json");
+
+		expect(response.status).toBe(HttpNotFound);
+		expect(response.headers.get("Content-Type")).toContain("application/json");
+		expect(await response.json()).toEqual({ status: HttpNotFound, message: "Asset not found. Check the URL or try again later." });
+	});
+
+	it("responds to missing images with an image", async () => {
+		const response = await fetchThroughWorker("http://test.com/images/missing.png");
+
+		expect(response.status).toBe(HttpNotFound);
+		expect(response.headers.get("Content-Type")).toBe("image/svg+xml");
+	});
+
+	it("responds to other missing assets with plain text", async () => {
+		const response = await fetchThroughWorker("http://test.com/assets/missing.js");
+
+		expect(response.status).toBe(HttpNotFound);
+		expect(response.headers.get("Content-Type")).toContain("text/plain");
 		expect(await response.text()).toBe("Asset not found. Check the URL or try again later.");
 	});
+
+	it("serves the branded 500 page when fetching the asset fails", async () => {
+		const failingEnv = withAssetOverride("/another-page.html", () => {
+			throw new Error("Assets unavailable");
+		});
+
+		const response = await fetchThroughWorker("http://test.com/another-page", {}, failingEnv);
+
+		expect(response.status).toBe(HttpInternalServerError);
+		expect(response.headers.get("Content-Type")).toContain("text/html");
+		expect(await response.text()).toContain("<title>Something went wrong</title>");
+	});
+});
+
+describe("Content-Security-Policy tests", () => {
+	it("adds the build-generated policy with inline style hashes to HTML responses", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page");
+
+		const policy = response.headers.get("Content-Security-Policy");
+		expect(policy).toContain("default-src 'none'");
+		expect(policy).toMatch(/style-src 'self' 'sha256-[A-Za-z0-9+/]+=*'/);
+	});
+
+	it("adds the default policy to pages with malformed percent-encoding in their path", async () => {
+		const pageEnv = withAssetOverride("/100%", () => new Response("<!doctype html>", { headers: { "Content-Type": "text/html" } }));
+
+		const response = await fetchThroughWorker("http://test.com/100%", {}, pageEnv);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Security-Policy")).toContain("default-src 'none'");
+	});
+
+	it("does not add a policy to non-HTML responses", async () => {
+		const response = await fetchThroughWorker("http://test.com/service-worker.js");
+
+		expect(response.headers.get("Content-Security-Policy")).toBeNull();
+	});
+});
+
+describe("Header policy tests", () => {
+	const expectSecurityHeaders = (response: Response): void => {
+		expect(response.headers.get("Cross-Origin-Opener-Policy")).toBe("same-origin");
+		expect(response.headers.get("Cross-Origin-Embedder-Policy")).toBe("require-corp");
+		expect(response.headers.get("Permissions-Policy")).toContain("camera=()");
+		expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+		expect(response.headers.get("X-Frame-Options")).toBe("DENY");
+		expect(response.headers.get("Referrer-Policy")).toBe("strict-origin-when-cross-origin");
+	};
+
+	it("serves HTML with security headers and no-cache", async () => {
+		const response = await fetchThroughWorker("http://test.com/");
+
+		expectSecurityHeaders(response);
+		expect(response.headers.get("Cache-Control")).toBe("no-cache");
+	});
+
+	it("serves the service worker with no-cache", async () => {
+		const response = await fetchThroughWorker("http://test.com/service-worker.js");
+
+		expectSecurityHeaders(response);
+		expect(response.headers.get("Cache-Control")).toBe("no-cache");
+	});
+
+	it("serves hashed assets as immutable", async () => {
+		const assetManifest = await (await fetchThroughWorker("http://test.com/asset-manifest.json")).json<{
+			assets: { [originalPath: string]: { path: string } }
+		}>();
+		const [hashedAsset] = Object.values(assetManifest.assets);
+		const response = await fetchThroughWorker(`http://test.com/${hashedAsset.path}`);
+
+		expect(response.status).toBe(200);
+		expectSecurityHeaders(response);
+		expect(response.headers.get("Cache-Control")).toBe("public, max-age=31536000, immutable");
+	});
+
+	it("adds security headers to not found responses", async () => {
+		const response = await fetchThroughWorker("http://test.com/404");
+
+		expectSecurityHeaders(response);
+	});
+
+	it("does not serve missing hashed assets as immutable", async () => {
+		const response = await fetchThroughWorker("http://test.com/assets/missing-0123abcd.png");
+
+		expect(response.status).toBe(404);
+		expectSecurityHeaders(response);
+		expect(response.headers.get("Cache-Control") ?? "").not.toContain("immutable");
+	});
+});
+
+describe("Clean URL routing tests", () => {
+	const HttpMovedPermanently = 301;
+
+	it("serves pages from their extensionless URL", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page");
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Type")).toContain("text/html");
+		expect(await response.text()).toContain("<title>Anotest test page</title>");
+	});
+
+	it("serves the offline page as a regular route", async () => {
+		const response = await fetchThroughWorker("http://test.com/offline");
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toContain("<title>You are offline</title>");
+	});
+
+	it("serves directory index pages from their trailing slash URL", async () => {
+		const response = await fetchThroughWorker("http://test.com/directory/");
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toMatch(/^\s*<!doctype html>/i);
+	});
+
+	it("redirects .html URLs to the canonical URL and keeps the query string", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page.html?ref=test");
+
+		expect(response.status).toBe(HttpMovedPermanently);
+		expect(response.headers.get("Location")).toBe("http://test.com/another-page?ref=test");
+	});
+
+	it("redirects /index.html to /", async () => {
+		const response = await fetchThroughWorker("http://test.com/index.html");
+
+		expect(response.status).toBe(HttpMovedPermanently);
+		expect(response.headers.get("Location")).toBe("http://test.com/");
+	});
+
+	it("redirects directories without a trailing slash", async () => {
+		const directoryResponse = await fetchThroughWorker("http://test.com/directory");
+		const indexResponse = await fetchThroughWorker("http://test.com/directory/index.html");
+
+		expect(directoryResponse.status).toBe(HttpMovedPermanently);
+		expect(directoryResponse.headers.get("Location")).toBe("http://test.com/directory/");
+		expect(indexResponse.headers.get("Location")).toBe("http://test.com/directory/");
+	});
+
+	it("redirects pages with a trailing slash", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page/");
+
+		expect(response.status).toBe(HttpMovedPermanently);
+		expect(response.headers.get("Location")).toBe("http://test.com/another-page");
+	});
+});
+
+describe("HTTP method tests", () => {
+	it("answers HEAD like GET without a body", async () => {
+		const response = await fetchThroughWorker("http://test.com/service-worker.js", { method: "HEAD" });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Type")).toContain("javascript");
+		expect(response.headers.get("Cache-Control")).toBe("no-cache");
+		expect(await response.text()).toBe("");
+	});
+
+	it("answers HEAD for a missing page with 404", async () => {
+		const response = await fetchThroughWorker("http://test.com/missing", { method: "HEAD" });
+
+		expect(response.status).toBe(404);
+		expect(response.headers.get("Content-Type")).toContain("text/html");
+		expect(await response.text()).toBe("");
+	});
+
+	it("answers CORS preflight requests", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page", {
+			method: "OPTIONS",
+			headers: { Origin: "https://example.com", "Access-Control-Request-Method": "GET", "Access-Control-Request-Headers": "range" }
+		});
+
+		expect(response.status).toBe(204);
+		expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+		expect(response.headers.get("Access-Control-Allow-Methods")).toBe("GET, HEAD, OPTIONS");
+		expect(response.headers.get("Access-Control-Allow-Headers")).toContain("Range");
+	});
+
+	it("answers other OPTIONS requests with the allowed methods", async () => {
+		const response = await fetchThroughWorker("http://test.com/", { method: "OPTIONS" });
+
+		expect(response.status).toBe(204);
+		expect(response.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+		expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+	});
+
+	it("rejects other methods with 405 and the allowed methods", async () => {
+		const response = await fetchThroughWorker("http://test.com/", { method: "POST" });
+
+		expect(response.status).toBe(405);
+		expect(response.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+	});
+});
+
+describe("Conditional request tests", () => {
+	const HttpNotModified = 304;
+
+	it("serves pages with the build-time ETag and Last-Modified", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page");
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]{32}"$/);
+		expect(response.headers.get("Last-Modified")).toMatch(/GMT$/);
+	});
+
+	it("responds with 304 when If-None-Match matches", async () => {
+		const etag = (await fetchThroughWorker("http://test.com/another-page")).headers.get("ETag") ?? "";
+
+		const response = await fetchThroughWorker("http://test.com/another-page", { headers: { "If-None-Match": `"other", W/${etag}` } });
+
+		expect(response.status).toBe(HttpNotModified);
+		expect(response.headers.get("ETag")).toBe(etag);
+		expect(response.headers.get("Cache-Control")).toBe("no-cache");
+		expect(await response.text()).toBe("");
+	});
+
+	it("responds with the full content when If-None-Match does not match", async () => {
+		const response = await fetchThroughWorker("http://test.com/another-page", { headers: { "If-None-Match": '"other"' } });
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toMatch(/^\s*<!doctype html>/i);
+	});
+
+	it("serves paths with malformed percent-encoding without validators", async () => {
+		const textEnv = withAssetOverride("/100%", () => new Response("text", { headers: { "Content-Type": "text/plain" } }));
+
+		const response = await fetchThroughWorker("http://test.com/100%", {}, textEnv);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ETag")).toBeNull();
+		expect(await response.text()).toBe("text");
+	});
+
+	it("evaluates If-Modified-Since against the build time", async () => {
+		const lastModified = (await fetchThroughWorker("http://test.com/")).headers.get("Last-Modified") ?? "";
+		const before = new Date(Date.parse(lastModified) - 1000).toUTCString();
+
+		expect((await fetchThroughWorker("http://test.com/", { headers: { "If-Modified-Since": lastModified } })).status).toBe(HttpNotModified);
+		expect((await fetchThroughWorker("http://test.com/", { headers: { "If-Modified-Since": before } })).status).toBe(200);
+	});
+});
+
+describe("Range request tests", () => {
+	const media = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+
+	//Streams the video in chunks, the way the asset binding streams files.
+	const streamMedia = (): ReadableStream<Uint8Array> => {
+		const chunks = [media.slice(0, 3), media.slice(3, 10), media.slice(10)];
+
+		return new ReadableStream({
+			pull: controller => {
+				const chunk = chunks.shift();
+				if (chunk) {
+					controller.enqueue(chunk);
+				} else {
+					controller.close();
+				}
+			}
+		});
+	};
+
+	//The build has no media, so the asset binding serves fake videos next to the real assets.
+	const mediaEnv = withAssetOverride(
+		"/assets/unlisted.mp4",
+		() => new Response(streamMedia(), { headers: { "Content-Type": "video/mp4" } }),
+		withAssetOverride("/assets/clip.mp4", () => {
+			return new Response(streamMedia(), { headers: { "Content-Type": "video/mp4", "Content-Length": String(media.byteLength), ETag: '"clip"' } });
+		})
+	);
+
+	const fetchMedia = (headers: HeadersInit = {}, url = "http://test.com/assets/clip.mp4"): Promise<Response> => {
+		return fetchThroughWorker(url, { headers }, mediaEnv);
+	};
+
+	it("advertises byte ranges for media", async () => {
+		const response = await fetchMedia();
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(media);
+	});
+
+	it("serves a byte range with 206", async () => {
+		const response = await fetchMedia({ Range: "bytes=2-5" });
+
+		expect(response.status).toBe(206);
+		expect(response.headers.get("Content-Type")).toBe("video/mp4");
+		expect(response.headers.get("Content-Range")).toBe("bytes 2-5/16");
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([2, 3, 4, 5]));
+	});
+
+	it("serves open-ended and suffix ranges", async () => {
+		const openEnded = await fetchMedia({ Range: "bytes=12-" });
+		const suffix = await fetchMedia({ Range: "bytes=-3" });
+
+		expect(openEnded.headers.get("Content-Range")).toBe("bytes 12-15/16");
+		expect(suffix.headers.get("Content-Range")).toBe("bytes 13-15/16");
+		expect(new Uint8Array(await suffix.arrayBuffer())).toEqual(new Uint8Array([13, 14, 15]));
+	});
+
+	it("responds with 416 to ranges beyond the end", async () => {
+		const response = await fetchMedia({ Range: "bytes=100-" });
+
+		expect(response.status).toBe(416);
+		expect(response.headers.get("Content-Range")).toBe("bytes */16");
+	});
+
+	it("serves byte ranges across chunks", async () => {
+		const response = await fetchMedia({ Range: "bytes=1-11" });
+
+		expect(response.headers.get("Content-Range")).toBe("bytes 1-11/16");
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(media.subarray(1, 12));
+	});
+
+	it("serves the full content of media with an unknown size", async () => {
+		const response = await fetchMedia({ Range: "bytes=2-5" }, "http://test.com/assets/unlisted.mp4");
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Range")).toBeNull();
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(media);
+	});
+
+	it("serves the full content when If-Range does not match", async () => {
+		const response = await fetchMedia({ Range: "bytes=2-5", "If-Range": '"outdated"' });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("Content-Range")).toBeNull();
+	});
 });
 
 describe("Integration test style", async () => {
 	it('responds with "Hello, World!" (integration style)', async () => {
-		const response = await SELF.fetch("http://example.com/index.html");
+		const response = await SELF.fetch("http://example.com/");
 
 		const html = await response.text();
 		expect(html).toMatch(/^\s*<!doctype html>/i);
@@ -1,5 +1,12 @@
-import { type AssetConfig, PostBuildAssetsProcessorPlugin } from './post-build-assets-processor-plugin.ts';
+import {
+  type AssetConfig,
+  type ContentSecurityPolicyDirectives,
+  PostBuildAssetsProcessorPlugin,
+  type ServiceWorkerPageStrategy,
+  serializeContentSecurityPolicy
+} from './post-build-assets-processor-plugin.ts';
 import { type UserConfig, type Plugin, defineConfig } from 'vite';
+import { getPolicyHeaders, headerRules } from './cloudflare/header-policy.ts';
 import { relative, resolve } from 'node:path';
 import { cloudflare } from '@cloudflare/vite-plugin';
 import fs from 'node:fs';
@@ -12,6 +19,32 @@ const assetConfig: AssetConfig = {
   siteBaseUrl: 'https://test.com'
 };
 
+/**
+ * Content-Security-Policy shared by the dev server and the production build. The build adds
+ * the hashes of inline scripts and styles per page.
+ */
+const contentSecurityPolicy: ContentSecurityPolicyDirectives = {
+  'default-src': ["'none'"],
+  'script-src': ["'self'"],
+  'style-src': ["'self'"],
+  'img-src': ["'self'", 'data:'],
+  'font-src': ["'self'"],
+  'media-src': ["'self'"],
+  'manifest-src': ["'self'"],
+  'worker-src': ["'self'"],
+  'connect-src': ["'self'"],
+  'require-trusted-types-for': ["'script'"],
+  'trusted-types': ['default']
+};
+
+/**
+ * How the service worker answers pages, stale-while-revalidate when the build runs with
+ * SERVICE_WORKER_PAGE_STRATEGY=stale-while-revalidate.
+ */
+const serviceWorkerPageStrategy: ServiceWorkerPageStrategy = process.env.SERVICE_WORKER_PAGE_STRATEGY === 'stale-while-revalidate'
+  ? 'stale-while-revalidate'
+  : 'network-first';
+
 /**
  * Maps URL route paths to their corresponding HTML file metadata.
  */
@@ -60,13 +93,16 @@ const ServiceWorkerPlugin = (): Plugin => {
     configureServer(server) {
       const logger = server.config.logger;
       server.middlewares.use((req, res, next) => {
-        if (req.url === '/service-worker.js') {
+        //The service worker and the modules it imports, e.g. /runtime-caching.js.
+        const swFileName = req.url?.match(/^\/([\w-]+\.js)$/)?.[1];
+        const swPath = swFileName ? resolve(projectRoot, 'compiled-sw', swFileName) : '';
+        if (req.url === '/service-worker.js' || (swPath && fs.existsSync(swPath))) {
           try {
-            const swPath = resolve(projectRoot, 'compiled-sw/service-worker.js');
             if (fs.existsSync(swPath)) {
-              logger.info('Serving service-worker.js from compiled-sw directory');
+              logger.info(`Serving ${swFileName} from compiled-sw directory`);
               res.setHeader('Content-Type', 'application/javascript');
-              res.end(fs.readFileSync(swPath, 'utf-8'));
+              //The build injects the page strategy, the unprocessed modules get it here.
+              res.end(fs.readFileSync(swPath, 'utf-8').replaceAll('self.__PAGE_STRATEGY', JSON.stringify(serviceWorkerPageStrategy)));
               return;
             } else {
               logger.warn(`Service worker file not found at ${swPath}`);
@@ -83,6 +119,42 @@ const ServiceWorkerPlugin = (): Plugin => {
   };
 }
 
+/**
+ * Create a plugin that applies the header policy of the Cloudflare worker to the dev server
+ * responses, by path, content type and status like in production.
+ */
+const HeaderPolicyPlugin = (): Plugin => {
+  return {
+    name: 'vite-plugin-header-policy',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        const writeHead = res.writeHead;
+
+        //The content type is known once the response starts, static files pass it to writeHead.
+        res.writeHead = function writeHeadWithPolicy(this: typeof res, ...args: unknown[]) {
+          const [statusCode, ...rest] = args;
+          const headers = rest.find(arg => typeof arg === 'object' && arg !== null && !Array.isArray(arg)) as { [name: string]: unknown } | undefined;
+          const contentTypeHeader = Object.entries(headers ?? {}).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+          const contentType = String(contentTypeHeader ?? res.getHeader('Content-Type') ?? '');
+
+          for (const [name, value] of Object.entries(getPolicyHeaders(pathname, contentType, headerRules, Number(statusCode)))) {
+            //The dev server keeps its no-store caching so that edits show up right away.
+            if (name !== 'Cache-Control') {
+              res.setHeader(name, value);
+            }
+          }
+
+          return writeHead.apply(this, args as Parameters<typeof writeHead>);
+        } as typeof res.writeHead;
+
+        next();
+      });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
   const DEFAULT_PORT = 9229;
   const NO_CACHE_MAX_AGE = 0;
@@ -128,7 +200,7 @@ export default defineConfig(({ mode }) => {
       devSourcemap: true
     },
     plugins: [
-      ...(isDev || isTest ? [ServiceWorkerPlugin()] : []),
+      ...(isDev || isTest ? [HeaderPolicyPlugin(), ServiceWorkerPlugin()] : []),
 
       cloudflare({
         configPath: resolve(__dirname, 'wrangler.jsonc'),
@@ -136,7 +208,21 @@ export default defineConfig(({ mode }) => {
           ? parseInt(process.env.CLOUDFLARE_INSPECTOR_PORT ?? '0')
           : DEFAULT_PORT
       }),
-      PostBuildAssetsProcessorPlugin({ assetConfig, projectRoot })
+      PostBuildAssetsProcessorPlugin({
+        assetConfig,
+        projectRoot,
+        htmlRoutes: Object.keys(htmlFiles),
+        serviceWorkerPageStrategy,
+        subresourceIntegrity: true,
+        contentSecurityPolicy,
+        responsiveImages: { widths: [320, 640], formats: ['avif', 'webp'] },
+        sitemap: true,
+        strict: true,
+        buildReport: {
+          pageBudgets: { script: 100000, style: 50000, total: 1000000 },
+          assetBudgets: { image: 500000 }
+        }
+      })
     ],
     ...(isDev || isTest ? {
       server: {
@@ -144,30 +230,11 @@ export default defineConfig(({ mode }) => {
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Cache-Control': `no-store, max-age=${NO_CACHE_MAX_AGE}`,
-          'Content-Security-Policy': [
-            "default-src 'none'",
-            "script-src 'self'",
-            "style-src 'self'",
-            "img-src 'self' data:",
-            "connect-src 'self' ws:",
-            "require-trusted-types-for 'script'",
-            "trusted-types default"
-          ].join('; '),
-          'Cross-Origin-Opener-Policy': 'same-origin',
-          'Cross-Origin-Embedder-Policy': 'require-corp',
-          'Permissions-Policy': [
-            'accelerometer=()',
-            'camera=()',
-            'geolocation=()',
-            'gyroscope=()',
-            'magnetometer=()',
-            'microphone=()',
-            'usb=()',
-            'fullscreen=(self)'
-          ].join(', '),
-          'X-Content-Type-Options': 'nosniff',
-          'X-Frame-Options': 'DENY',
-          'Referrer-Policy': 'strict-origin-when-cross-origin'
+          //The dev server also needs WebSocket connections for HMR.
+          'Content-Security-Policy': serializeContentSecurityPolicy({
+            ...contentSecurityPolicy,
+            'connect-src': [...contentSecurityPolicy['connect-src'], 'ws:']
+          })
         }
       }
     } : {}),
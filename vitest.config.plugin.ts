@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Unit tests of the post-build plugin, which runs in Node and works on files in a temporary directory.
+ */
+export default defineConfig({
+	test: {
+		environment: 'node',
+		globals: false,
+		include: ['./test/plugin-tests.ts'],
+		pool: 'forks'
+	}
+});